@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import {
+  getCountryBoundary,
+  getCountryBoundaryAt,
+  isReverseGeocodingEnabled,
+} from "@/lib/reverse-geocoding";
+
+export const dynamic = "force-dynamic";
+
+// A country outline as a GeoJSON feature, by ISO code (?code=UA) or by a point inside it (?lat=&lng=)
+// Without either, reports whether any boundaries are loaded
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get("code");
+
+  if (!code && !searchParams.has("lat") && !searchParams.has("lng")) {
+    return NextResponse.json({ enabled: isReverseGeocodingEnabled() });
+  }
+  const lat = Number(searchParams.get("lat"));
+  const lng = Number(searchParams.get("lng"));
+
+  if (!code && (!searchParams.has("lat") || !searchParams.has("lng") || isNaN(lat) || isNaN(lng))) {
+    return NextResponse.json(
+      { error: "Either code or lat and lng are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const boundary = code ? getCountryBoundary(code) : getCountryBoundaryAt(lat, lng);
+    if (!boundary) {
+      return NextResponse.json({ error: "No boundary found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      type: "Feature",
+      properties: { code: boundary.code, name: boundary.name },
+      geometry: { type: "MultiPolygon", coordinates: boundary.polygons },
+    });
+  } catch (error) {
+    console.error("Error fetching country boundary:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch country boundary" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { isSelfHostedMode } from "@/lib/app-mode";
+import { queryEvents } from "@/lib/event-store";
+import { getUserInfo } from "@/lib/valyu";
+import { EventCategory, ThreatLevel } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+// Parse a comma-separated list param, dropping values that aren't in the enum
+function parseListParam<T extends string>(
+  value: string | null,
+  allowed: readonly T[]
+): T[] | undefined {
+  if (!value) return undefined;
+  const parsed = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item): item is T => (allowed as readonly string[]).includes(item));
+  return parsed.length > 0 ? parsed : undefined;
+}
+
+function parseNumberParam(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+function parseDateParam(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const accessToken = searchParams.get("accessToken");
+
+  try {
+    // In valyu mode, require a token the auth provider accepts
+    const selfHosted = isSelfHostedMode();
+    if (!selfHosted && (!accessToken || !(await getUserInfo(accessToken)))) {
+      return NextResponse.json(
+        { error: "Authentication required", requiresReauth: true },
+        { status: 401 }
+      );
+    }
+
+    // "before" and "beforeId" name the oldest event the client has, to page back from
+    const before = parseDateParam(searchParams.get("before"));
+    const beforeId = searchParams.get("beforeId");
+
+    const result = await queryEvents({
+      from: parseDateParam(searchParams.get("from")),
+      to: parseDateParam(searchParams.get("to")),
+      before: before && beforeId ? { timestamp: before, id: beforeId } : undefined,
+      categories: parseListParam(searchParams.get("category"), EventCategory.options),
+      threatLevels: parseListParam(searchParams.get("threatLevel"), ThreatLevel.options),
+      country: searchParams.get("country") || undefined,
+      maxSourceRank: parseNumberParam(searchParams.get("maxSourceRank")),
+      excludeCountryLevel: searchParams.get("excludeCountryLevel") === "true",
+      limit: parseNumberParam(searchParams.get("limit")),
+      offset: parseNumberParam(searchParams.get("offset")),
+    });
+
+    return NextResponse.json({
+      events: result.events,
+      count: result.events.length,
+      total: result.total,
+      hasMore: result.hasMore,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error querying event history:", error);
+    return NextResponse.json(
+      { error: "Failed to query event history" },
+      { status: 500 }
+    );
+  }
+}
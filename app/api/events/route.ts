@@ -1,170 +1,62 @@
 import { NextResponse } from "next/server";
-import { searchEvents } from "@/lib/valyu";
 import { isSelfHostedMode } from "@/lib/app-mode";
-import { classifyEvent, isAIClassificationEnabled } from "@/lib/ai-classifier";
-import { generateEventId } from "@/lib/utils";
-import { extractKeywords, extractEntities } from "@/lib/event-classifier";
+import { processSearchResults } from "@/lib/event-pipeline";
+import { isDefaultPackSelection, resolveQueryPacks } from "@/lib/query-packs";
+import { getIngestedEvents, isIngestionEnabled } from "@/lib/ingestion";
+import { fetchFromSources } from "@/lib/source-adapters";
 import type { ThreatEvent } from "@/types";
 
 export const dynamic = "force-dynamic";
 
-const THREAT_QUERIES = [
-  "breaking news conflict military",
-  "geopolitical crisis tensions",
-  "protest demonstration unrest",
-  "natural disaster emergency",
-  "earthquake tsunami volcano eruption",
-  "hurricane typhoon cyclone storm",
-  "flooding wildfire drought extreme weather",
-  "terrorism attack security",
-  "cyber attack breach",
-  "diplomatic summit sanctions",
-  "shipping attack piracy maritime",
-  "kidnapping cartel violence crime",
-  "infrastructure dam power grid failure",
-  "food shortage commodity crisis",
-  "missile strike airstrike bombing",
-];
+// Ad-hoc queries are capped; longer sets belong in a query pack
+const MAX_CUSTOM_QUERIES = 12;
 
-// Clean boilerplate from content
-function cleanContent(text: string): string {
-  return text
-    .replace(/skip to (?:main |primary )?content/gi, "")
-    .replace(/keyboard shortcuts?/gi, "")
-    .replace(/\n{3,}/g, "\n\n")
-    .replace(/\s{2,}/g, " ")
-    .trim();
+function parsePackIds(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((id): id is string => typeof id === "string" && !!id);
+  }
+  if (typeof value === "string" && value) {
+    return value.split(",").map((id) => id.trim()).filter(Boolean);
+  }
+  return undefined;
 }
 
-// Filter out non-news sources and generic pages
-const BLOCKED_DOMAINS = [
-  "wikipedia.org",
-  "brighteon.com",
-  "fortinet.com",
-  "cisa.gov",
-];
-
-const GENERIC_TITLE_PATTERNS = [
-  /\| topic$/i,
-  /\| homeland security$/i,
-  /\| fortinet$/i,
-  /^natural disasters$/i,
-  /^countering terrorism$/i,
-  /^maritime piracy:/i,
-  /^assessment of global/i,
-  /^recent cyber attacks in \d{4}/i,
-];
-
-// Validate location is real (not garbage text)
-function isValidLocation(location: { placeName?: string; country?: string }): boolean {
-  const name = location.placeName || location.country || "";
-  // Skip if contains non-Latin scripts that aren't common (Arabic, Chinese, etc are ok)
-  // But garbage like "گۆپاڵ" or "Routes" should be filtered
-  if (name.length < 2) return false;
-  if (name.toLowerCase() === "routes") return false;
-  if (/^[a-z\s]+$/i.test(name) && name.length < 3) return false;
-  // Check for suspiciously short or generic names
-  if (["unknown", "global", "worldwide", "n/a"].includes(name.toLowerCase())) return false;
-  return true;
+// Parse the client's `since` cursor; invalid values fall back to a full fetch
+function parseSince(value: unknown): number | null {
+  if (typeof value !== "string" || !value) return null;
+  const parsed = new Date(value).getTime();
+  return isNaN(parsed) ? null : parsed;
 }
 
-// Threat level priority for sorting
-const THREAT_LEVEL_PRIORITY: Record<string, number> = {
-  critical: 0,
-  high: 1,
-  medium: 2,
-  low: 3,
-  info: 4,
-};
-
-async function processSearchResults(
-  results: Array<{ title: string; url: string; content: string; publishedDate?: string; source?: string }>
-): Promise<ThreatEvent[]> {
-  // Pre-filter results before processing
-  const filteredResults = results.filter((result) => {
-    // Skip blocked domains
-    const url = result.url.toLowerCase();
-    if (BLOCKED_DOMAINS.some((domain) => url.includes(domain))) {
-      return false;
-    }
-    // Skip generic informational pages
-    const title = result.title;
-    if (GENERIC_TITLE_PATTERNS.some((pattern) => pattern.test(title))) {
-      return false;
-    }
-    return true;
-  });
-
-  // Deduplicate by URL before processing (faster than after)
-  const seenUrls = new Set<string>();
-  const uniqueResults = filteredResults.filter((result) => {
-    // Normalize URL (remove query params, trailing slashes)
-    const normalizedUrl = result.url.split("?")[0].replace(/\/$/, "").toLowerCase();
-    if (seenUrls.has(normalizedUrl)) return false;
-    seenUrls.add(normalizedUrl);
-    return true;
-  });
-
-  const eventsWithLocations = await Promise.all(
-    uniqueResults.map(async (result) => {
-      const cleanedTitle = cleanContent(result.title);
-      const cleanedContent = cleanContent(result.content);
-      const fullText = `${cleanedTitle} ${cleanedContent}`;
-
-      // Use AI classification (falls back to keywords if OpenAI not available)
-      const classification = await classifyEvent(cleanedTitle, cleanedContent);
-
-      // Skip events without valid locations
-      if (!classification.location || !isValidLocation(classification.location)) {
-        return null;
-      }
-
-      const event: ThreatEvent = {
-        id: generateEventId(),
-        title: cleanedTitle,
-        summary: cleanedContent.slice(0, 500),
-        category: classification.category,
-        threatLevel: classification.threatLevel,
-        location: classification.location,
-        timestamp: result.publishedDate || new Date().toISOString(),
-        source: result.source || "web",
-        sourceUrl: result.url,
-        entities: extractEntities(fullText),
-        keywords: extractKeywords(fullText),
-        rawContent: cleanedContent,
-      };
-
-      return event;
-    })
-  );
-
-  const validEvents = eventsWithLocations.filter(
-    (event): event is ThreatEvent => event !== null
-  );
-
-  // Further deduplicate by title similarity
-  const uniqueEvents = validEvents.filter(
-    (event, index, self) =>
-      index === self.findIndex((e) => e.title === event.title)
+// Keep only events that were stored or changed after the cursor
+function filterSince(events: ThreatEvent[], since: number | null): ThreatEvent[] {
+  if (since === null) return events;
+  return events.filter(
+    (event) => !event.updatedAt || new Date(event.updatedAt).getTime() > since
   );
+}
 
-  // Sort by threat level first, then by date
-  return uniqueEvents.sort((a, b) => {
-    const priorityA = THREAT_LEVEL_PRIORITY[a.threatLevel] ?? 5;
-    const priorityB = THREAT_LEVEL_PRIORITY[b.threatLevel] ?? 5;
-    if (priorityA !== priorityB) {
-      return priorityA - priorityB;
-    }
-    const dateA = new Date(a.timestamp).getTime();
-    const dateB = new Date(b.timestamp).getTime();
-    return dateB - dateA;
+// Default-query fetches come from the ingestion worker's shared store when it's running
+async function respondFromIngestion(since: number | null, cursor: string) {
+  const events = filterSince(await getIngestedEvents(), since);
+  return NextResponse.json({
+    events,
+    count: events.length,
+    cursor,
+    incremental: since !== null,
+    cached: true,
+    timestamp: new Date().toISOString(),
   });
 }
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get("q");
+  const packIds = parsePackIds(searchParams.get("packs"));
   const accessToken = searchParams.get("accessToken");
+  const since = parseSince(searchParams.get("since"));
+  // Taken before fetching so anything stored during this request is picked up next time
+  const cursor = new Date().toISOString();
 
   // In valyu mode, require authentication
   const selfHosted = isSelfHostedMode();
@@ -176,14 +68,23 @@ export async function GET(request: Request) {
   }
 
   try {
-    const searchQueries = query ? [query] : THREAT_QUERIES;
+    if (!query && isDefaultPackSelection(packIds) && isIngestionEnabled()) {
+      return await respondFromIngestion(since, cursor);
+    }
+
+    const searchQueries = query ? [{ query }] : await resolveQueryPacks(packIds);
     const tokenToUse = selfHosted ? undefined : accessToken;
 
-    const searchResultsArrays = await Promise.all(
-      searchQueries.map((q) => searchEvents(q, { maxResults: 20, accessToken: tokenToUse || undefined }))
-    );
+    const sourceResults = await fetchFromSources(searchQueries, {
+      accessToken: tokenToUse || undefined,
+      matchFeedsToQueries: !!query || !isDefaultPackSelection(packIds),
+    });
+
+    if (sourceResults.every((r) => r.error)) {
+      throw new Error("All event sources failed");
+    }
 
-    const requiresReauth = searchResultsArrays.some((r) => r.requiresReauth);
+    const requiresReauth = sourceResults.some((r) => r.result?.requiresReauth);
     if (requiresReauth) {
       return NextResponse.json(
         { error: "auth_error", message: "Session expired. Please sign in again.", requiresReauth: true },
@@ -191,7 +92,7 @@ export async function GET(request: Request) {
       );
     }
 
-    const requiresCredits = searchResultsArrays.some((r) => r.requiresCredits);
+    const requiresCredits = sourceResults.some((r) => r.result?.requiresCredits);
     if (requiresCredits) {
       return NextResponse.json(
         { error: "Insufficient credits", message: "Please top up credits" },
@@ -199,12 +100,15 @@ export async function GET(request: Request) {
       );
     }
 
-    const allResults = searchResultsArrays.flatMap((r) => r.results);
-    const sortedEvents = await processSearchResults(allResults);
+    const allResults = sourceResults.flatMap((r) => r.result?.results || []);
+    const { events } = await processSearchResults(allResults);
+    const sortedEvents = filterSince(events, since);
 
     return NextResponse.json({
       events: sortedEvents,
       count: sortedEvents.length,
+      cursor,
+      incremental: since !== null,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -220,6 +124,9 @@ export async function POST(request: Request) {
   try {
     const body = await request.json();
     const { queries, accessToken } = body;
+    const packIds = parsePackIds(body.packs);
+    const since = parseSince(body.since);
+    const cursor = new Date().toISOString();
 
     const selfHosted = isSelfHostedMode();
 
@@ -232,18 +139,33 @@ export async function POST(request: Request) {
     }
 
     const tokenToUse = selfHosted ? undefined : accessToken;
+    const hasCustomQueries = queries && Array.isArray(queries) && queries.length > 0;
+
+    if (!hasCustomQueries && isDefaultPackSelection(packIds) && isIngestionEnabled()) {
+      return await respondFromIngestion(since, cursor);
+    }
 
-    const searchQueries = queries && Array.isArray(queries) && queries.length > 0
-      ? queries.slice(0, 12)
-      : THREAT_QUERIES;
+    if (hasCustomQueries && queries.length > MAX_CUSTOM_QUERIES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_CUSTOM_QUERIES} custom queries are allowed; use a query pack for larger sets` },
+        { status: 400 }
+      );
+    }
 
-    const searchResultsArrays = await Promise.all(
-      searchQueries.map((query: string) =>
-        searchEvents(query, { maxResults: 20, accessToken: tokenToUse })
-      )
-    );
+    const searchQueries = hasCustomQueries
+      ? queries.map((query: string) => ({ query }))
+      : await resolveQueryPacks(packIds);
+
+    const sourceResults = await fetchFromSources(searchQueries, {
+      accessToken: tokenToUse,
+      matchFeedsToQueries: hasCustomQueries || !isDefaultPackSelection(packIds),
+    });
+
+    if (sourceResults.every((r) => r.error)) {
+      throw new Error("All event sources failed");
+    }
 
-    const requiresReauth = searchResultsArrays.some((r) => r.requiresReauth);
+    const requiresReauth = sourceResults.some((r) => r.result?.requiresReauth);
     if (requiresReauth) {
       return NextResponse.json(
         { error: "auth_error", message: "Session expired. Please sign in again.", requiresReauth: true },
@@ -251,7 +173,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const requiresCredits = searchResultsArrays.some((r) => r.requiresCredits);
+    const requiresCredits = sourceResults.some((r) => r.result?.requiresCredits);
     if (requiresCredits) {
       return NextResponse.json(
         { error: "Insufficient credits", message: "Please top up credits" },
@@ -259,12 +181,15 @@ export async function POST(request: Request) {
       );
     }
 
-    const allResults = searchResultsArrays.flatMap((r) => r.results);
-    const sortedEvents = await processSearchResults(allResults);
+    const allResults = sourceResults.flatMap((r) => r.result?.results || []);
+    const { events } = await processSearchResults(allResults);
+    const sortedEvents = filterSince(events, since);
 
     return NextResponse.json({
       events: sortedEvents,
       count: sortedEvents.length,
+      cursor,
+      incremental: since !== null,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
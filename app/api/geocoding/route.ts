@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getGeocodeCacheStats } from "@/lib/geocode-cache";
+
+export const dynamic = "force-dynamic";
+
+// Geocode cache hit/miss statistics
+export async function GET() {
+  try {
+    const cache = await getGeocodeCacheStats();
+    return NextResponse.json({ cache });
+  } catch (error) {
+    console.error("Error fetching geocode cache stats:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch geocode cache stats" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import {
+  getIngestionStatus,
+  isIngestionEnabled,
+  runIngestion,
+} from "@/lib/ingestion";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const status = await getIngestionStatus();
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error("Error fetching ingestion status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ingestion status" },
+      { status: 500 }
+    );
+  }
+}
+
+// Trigger a run now instead of waiting for the next interval
+export async function POST() {
+  if (!isIngestionEnabled()) {
+    return NextResponse.json(
+      { error: "Ingestion is not enabled" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const run = await runIngestion();
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Error running ingestion:", error);
+    return NextResponse.json(
+      { error: "Failed to run ingestion" },
+      { status: 500 }
+    );
+  }
+}
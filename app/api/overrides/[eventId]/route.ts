@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { isSelfHostedMode } from "@/lib/app-mode";
+import {
+  ClassificationOverrideInput,
+  getClassificationOverride,
+  locateOverride,
+  overrideClassification,
+  removeClassificationOverride,
+} from "@/lib/classification-overrides";
+import { getUserInfo } from "@/lib/valyu";
+
+export const dynamic = "force-dynamic";
+
+function authenticationRequired() {
+  return NextResponse.json(
+    { error: "Authentication required", requiresReauth: true },
+    { status: 401 }
+  );
+}
+
+/**
+ * Who is changing the shared events and classifier feedback, checked with the auth provider
+ * Null when self-hosted without sign-in; undefined when the token is missing in valyu mode
+ * or the provider rejects it
+ */
+async function getAnalyst(accessToken: string | null | undefined): Promise<string | null | undefined> {
+  if (!accessToken) return isSelfHostedMode() ? null : undefined;
+  const user = await getUserInfo(accessToken);
+  return user ? user.email || user.sub : undefined;
+}
+
+// Correct an event's category, threat level or location; replaces any earlier correction
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const body = await request.json();
+
+    const analyst = await getAnalyst(body.accessToken);
+    if (analyst === undefined) {
+      return authenticationRequired();
+    }
+
+    const parsed = ClassificationOverrideInput.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid override" },
+        { status: 400 }
+      );
+    }
+
+    const { category, threatLevel, location: place } = parsed.data;
+    const location = place ? await locateOverride(place) : undefined;
+    if (location === null) {
+      return NextResponse.json(
+        { error: `Couldn't find a location for "${place}"` },
+        { status: 400 }
+      );
+    }
+
+    const event = await overrideClassification(
+      eventId,
+      { category, threatLevel, location },
+      analyst ?? undefined
+    );
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      event,
+      override: await getClassificationOverride(eventId),
+    });
+  } catch (error) {
+    console.error("Error saving classification override:", error);
+    return NextResponse.json(
+      { error: "Failed to save classification override" },
+      { status: 500 }
+    );
+  }
+}
+
+// Drop the correction and restore what the classifier said
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    if ((await getAnalyst(searchParams.get("accessToken"))) === undefined) {
+      return authenticationRequired();
+    }
+
+    const { eventId } = await params;
+    if (!(await getClassificationOverride(eventId))) {
+      return NextResponse.json({ error: "No override for this event" }, { status: 404 });
+    }
+
+    const event = await removeClassificationOverride(eventId);
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error("Error removing classification override:", error);
+    return NextResponse.json(
+      { error: "Failed to remove classification override" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { isSelfHostedMode } from "@/lib/app-mode";
+import { listClassificationOverrides } from "@/lib/classification-overrides";
+import { getUserInfo } from "@/lib/valyu";
+
+export const dynamic = "force-dynamic";
+
+// Every analyst correction, most recent first
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const accessToken = searchParams.get("accessToken");
+
+  try {
+    // In valyu mode, require a token the auth provider accepts - the list names the analysts
+    if (!isSelfHostedMode() && (!accessToken || !(await getUserInfo(accessToken)))) {
+      return NextResponse.json(
+        { error: "Authentication required", requiresReauth: true },
+        { status: 401 }
+      );
+    }
+
+    const overrides = await listClassificationOverrides();
+    return NextResponse.json({ overrides });
+  } catch (error) {
+    console.error("Error listing classification overrides:", error);
+    return NextResponse.json(
+      { error: "Failed to list classification overrides" },
+      { status: 500 }
+    );
+  }
+}
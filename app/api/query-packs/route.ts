@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_PACK_ID, loadQueryPacks } from "@/lib/query-packs";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const packs = await loadQueryPacks();
+    return NextResponse.json({
+      packs: packs.map((pack) => ({
+        id: pack.id,
+        name: pack.name,
+        description: pack.description,
+        queryCount: pack.queries.length,
+      })),
+      defaultPackId: DEFAULT_PACK_ID,
+    });
+  } catch (error) {
+    console.error("Error loading query packs:", error);
+    return NextResponse.json(
+      { error: "Failed to load query packs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { PencilLine } from "lucide-react";
+import {
+  EventCategory,
+  ThreatLevel,
+  type OverrideField,
+  type ThreatEvent,
+} from "@/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  useClassificationOverride,
+  type OverrideRequest,
+} from "@/hooks/use-classification-override";
+
+const SELECT_CLASS =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm capitalize focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+interface ClassificationOverrideDialogProps {
+  event: ThreatEvent;
+  onClose: () => void;
+}
+
+/**
+ * Lets an analyst correct an event's category, threat level or location. Mount it to open it.
+ * Rendered into the body so it isn't clipped or moved by a map popup, and clicks inside it
+ * don't reach the card or popup it was opened from
+ */
+export function ClassificationOverrideDialog({
+  event,
+  onClose,
+}: ClassificationOverrideDialogProps) {
+  const overridden = new Set<OverrideField>(event.overriddenFields || []);
+  const [category, setCategory] = useState<EventCategory>(event.category);
+  const [threatLevel, setThreatLevel] = useState<ThreatLevel>(event.threatLevel);
+  const [location, setLocation] = useState(
+    overridden.has("location") ? event.location.placeName || "" : ""
+  );
+  const { saveOverride, clearOverride, isSaving, error } = useClassificationOverride(event.id);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // A save replaces the earlier correction, so fields corrected before are sent again
+  const handleSave = async () => {
+    const request: OverrideRequest = {};
+    if (category !== event.category || overridden.has("category")) {
+      request.category = category;
+    }
+    if (threatLevel !== event.threatLevel || overridden.has("threatLevel")) {
+      request.threatLevel = threatLevel;
+    }
+    if (location.trim()) {
+      request.location = location.trim();
+    }
+
+    if (Object.keys(request).length === 0) {
+      setValidationError("Change the category, threat level or location first");
+      return;
+    }
+    setValidationError(null);
+    if (await saveOverride(request)) onClose();
+  };
+
+  const handleReset = async () => {
+    if (await clearOverride()) onClose();
+  };
+
+  return createPortal(
+    <div onClick={(e) => e.stopPropagation()}>
+      <Dialog open onClose={onClose} className="max-w-md">
+        <DialogHeader onClose={onClose}>
+          <DialogTitle className="flex items-center gap-2">
+            <PencilLine className="h-5 w-5 text-primary" />
+            Correct classification
+          </DialogTitle>
+        </DialogHeader>
+
+        <DialogContent className="space-y-4">
+          <p className="text-sm text-muted-foreground line-clamp-2">{event.title}</p>
+
+          <label className="block space-y-1 text-sm">
+            <span className="text-foreground">Category</span>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as EventCategory)}
+              className={SELECT_CLASS}
+            >
+              {EventCategory.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1 text-sm">
+            <span className="text-foreground">Threat level</span>
+            <select
+              value={threatLevel}
+              onChange={(e) => setThreatLevel(e.target.value as ThreatLevel)}
+              className={SELECT_CLASS}
+            >
+              {ThreatLevel.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1 text-sm">
+            <span className="text-foreground">Location</span>
+            <Input
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder={event.location.placeName || event.location.country || "Place name or coordinates"}
+            />
+            <span className="block text-xs text-muted-foreground">
+              A place name or coordinates; leave empty for the classifier&apos;s location
+            </span>
+          </label>
+
+          {(validationError || error) && (
+            <p className="text-sm text-destructive">{validationError || error}</p>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Corrections stick when later reports update this event, and teach the classifier
+            how to handle similar articles.
+          </p>
+        </DialogContent>
+
+        <DialogFooter className="justify-between">
+          {overridden.size > 0 ? (
+            <Button variant="ghost" onClick={handleReset} disabled={isSaving}>
+              Reset to classifier
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </Dialog>
+    </div>,
+    document.body
+  );
+}
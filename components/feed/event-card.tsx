@@ -1,11 +1,14 @@
 "use client";
 
-import { memo, useCallback } from "react";
-import type { ThreatEvent } from "@/types";
+import { memo, useCallback, useState } from "react";
+import { overrideFieldLabels, sourceTierLabels, type ThreatEvent } from "@/types";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Markdown } from "@/components/ui/markdown";
 import { formatRelativeTime, cn } from "@/lib/utils";
+import { getLanguageName } from "@/lib/language";
+import { ImpactSummary } from "./impact-summary";
+import { ClassificationOverrideDialog } from "./classification-override-dialog";
 import { useMapStore } from "@/stores/map-store";
 import {
   MapPin,
@@ -24,6 +27,12 @@ import {
   Anchor,
   Droplets,
   ShoppingCart,
+  Newspaper,
+  ShieldCheck,
+  ShieldQuestion,
+  Languages,
+  PencilLine,
+  UserCheck,
 } from "lucide-react";
 
 const categoryIconMap = {
@@ -46,6 +55,7 @@ const categoryIconMap = {
 interface EventCardProps {
   event: ThreatEvent;
   isSelected: boolean;
+  isNew?: boolean;
   onClick: () => void;
   style?: React.CSSProperties;
 }
@@ -53,17 +63,41 @@ interface EventCardProps {
 export const EventCard = memo(function EventCard({
   event,
   isSelected,
+  isNew = false,
   onClick,
   style,
 }: EventCardProps) {
   const flyTo = useMapStore((state) => state.flyTo);
   const CategoryIcon = categoryIconMap[event.category] || AlertTriangle;
+  const sourceCount = event.sources?.length ?? 1;
+  const reliability = event.sourceReliability;
+  const ReliabilityIcon =
+    reliability && reliability.rank <= 2 ? ShieldCheck : ShieldQuestion;
 
   const handleClick = useCallback(() => {
     onClick();
     flyTo(event.location.longitude, event.location.latitude, 6);
   }, [onClick, flyTo, event.location.longitude, event.location.latitude]);
 
+  // Translated events can be flipped back to the source-language text
+  const [showOriginal, setShowOriginal] = useState(false);
+  const original = event.originalText;
+  const title = showOriginal && original ? original.title : event.title;
+  const summary = showOriginal && original ? original.summary : event.summary;
+
+  const toggleOriginal = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowOriginal((value) => !value);
+  }, []);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const overriddenFields = event.overriddenFields || [];
+
+  const startEditing = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+  }, []);
+
   return (
     <Card
       className={cn(
@@ -93,20 +127,29 @@ export const EventCard = memo(function EventCard({
           <div className="min-w-0 flex-1">
             <div className="flex items-start justify-between gap-2">
               <h3 className="text-sm font-medium text-foreground line-clamp-2">
-                {event.title}
+                {title}
               </h3>
-              <Badge
-                variant={event.threatLevel}
-                className="shrink-0 text-xs capitalize"
-              >
-                {event.threatLevel}
-              </Badge>
+              <div className="flex shrink-0 items-center gap-1">
+                {isNew && (
+                  <Badge variant="default" className="text-xs">
+                    New
+                  </Badge>
+                )}
+                <Badge
+                  variant={event.threatLevel}
+                  className="text-xs capitalize"
+                >
+                  {event.threatLevel}
+                </Badge>
+              </div>
             </div>
 
             <div className="mt-1 text-xs text-muted-foreground line-clamp-2">
-              <Markdown content={event.summary} />
+              <Markdown content={summary} />
             </div>
 
+            <ImpactSummary impact={event.impact} className="mt-1" />
+
             <div className="mt-2 flex items-center gap-3 text-xs text-muted-foreground">
               <span className="flex items-center gap-1">
                 <MapPin className="h-3 w-3" />
@@ -118,10 +161,62 @@ export const EventCard = memo(function EventCard({
                 <Clock className="h-3 w-3" />
                 {formatRelativeTime(event.timestamp)}
               </span>
+              {sourceCount > 1 && (
+                <span className="flex items-center gap-1">
+                  <Newspaper className="h-3 w-3" />
+                  {sourceCount} sources
+                </span>
+              )}
+              {reliability && (
+                <span
+                  className="flex items-center gap-1"
+                  title={
+                    reliability.discounted
+                      ? "Threat level lowered: single low-credibility source"
+                      : undefined
+                  }
+                >
+                  <ReliabilityIcon className="h-3 w-3" />
+                  {sourceTierLabels[reliability.tier]}
+                </span>
+              )}
+              {original && event.language && (
+                <button
+                  onClick={toggleOriginal}
+                  className="flex items-center gap-1 hover:text-foreground"
+                  title={
+                    showOriginal
+                      ? "Show English translation"
+                      : `Translated from ${getLanguageName(event.language)} - show original`
+                  }
+                >
+                  <Languages className="h-3 w-3" />
+                  {showOriginal ? "English" : event.language.toUpperCase()}
+                </button>
+              )}
+              {overriddenFields.length > 0 && (
+                <span
+                  className="flex items-center gap-1 text-primary"
+                  title={`Corrected by an analyst: ${overriddenFields.map((field) => overrideFieldLabels[field]).join(", ")}`}
+                >
+                  <UserCheck className="h-3 w-3" />
+                  Corrected
+                </span>
+              )}
+              <button
+                onClick={startEditing}
+                className="ml-auto flex items-center gap-1 hover:text-foreground"
+                title="Correct category, threat level or location"
+              >
+                <PencilLine className="h-3 w-3" />
+              </button>
             </div>
           </div>
         </div>
       </CardContent>
+      {isEditing && (
+        <ClassificationOverrideDialog event={event} onClose={() => setIsEditing(false)} />
+      )}
     </Card>
   );
 });
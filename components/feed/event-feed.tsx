@@ -3,20 +3,29 @@
 import { useState } from "react";
 import { useEventsStore } from "@/stores/events-store";
 import { useAuthStore } from "@/stores/auth-store";
+import { useEventHistory } from "@/hooks/use-event-history";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { EventCard } from "./event-card";
 import { FeedFilters } from "./feed-filters";
 import { SignInModal } from "@/components/auth";
-import { Loader2, Lock } from "lucide-react";
+import { History, Loader2, Lock } from "lucide-react";
 
 const APP_MODE = process.env.NEXT_PUBLIC_APP_MODE || "self-hosted";
 
 export function EventFeed() {
-  const { filteredEvents, isLoading, error, selectedEvent, selectEvent } =
-    useEventsStore();
+  const {
+    filteredEvents,
+    newEventIds,
+    isLoading,
+    error,
+    selectedEvent,
+    selectEvent,
+  } = useEventsStore();
   const { isAuthenticated } = useAuthStore();
   const [showSignInModal, setShowSignInModal] = useState(false);
+  const { loadOlderEvents, isLoadingHistory, hasMoreHistory, historyError } =
+    useEventHistory();
 
   const requiresAuth = APP_MODE === "valyu";
   const showSignInPrompt = requiresAuth && !isAuthenticated && !isLoading && filteredEvents.length === 0;
@@ -81,11 +90,33 @@ export function EventFeed() {
               key={event.id}
               event={event}
               isSelected={selectedEvent?.id === event.id}
+              isNew={newEventIds.includes(event.id)}
               onClick={() => selectEvent(event)}
               style={{ animationDelay: `${index * 50}ms` }}
             />
           ))}
         </div>
+
+        {!isLoading && !showSignInPrompt && hasMoreHistory && (
+          <div className="py-4 text-center">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={loadOlderEvents}
+              disabled={isLoadingHistory}
+            >
+              {isLoadingHistory ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <History className="mr-2 h-4 w-4" />
+              )}
+              Load older events
+            </Button>
+            {historyError && (
+              <p className="mt-2 text-xs text-destructive">{historyError}</p>
+            )}
+          </div>
+        )}
       </ScrollArea>
 
       <SignInModal open={showSignInModal} onOpenChange={setShowSignInModal} />
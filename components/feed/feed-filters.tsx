@@ -1,10 +1,11 @@
 "use client";
 
-import { useEventsStore } from "@/stores/events-store";
+import { useEventsStore, type EventSortKey } from "@/stores/events-store";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Search, X } from "lucide-react";
+import { QueryPackSelector } from "./query-pack-selector";
 import type { EventCategory, ThreatLevel } from "@/types";
 
 const THREAT_LEVELS: ThreatLevel[] = [
@@ -32,21 +33,37 @@ const CATEGORIES: EventCategory[] = [
   "commodities",
 ];
 
+const SORT_OPTIONS: { value: EventSortKey; label: string }[] = [
+  { value: "threat", label: "Threat score" },
+  { value: "killed", label: "Killed" },
+  { value: "injured", label: "Injured" },
+  { value: "displaced", label: "Displaced" },
+  { value: "arrested", label: "Arrested" },
+];
+
 export function FeedFilters() {
   const {
     searchQuery,
     categoryFilters,
     threatLevelFilters,
+    reliableSourcesOnly,
+    hideCountryLevel,
+    sortBy,
     setSearchQuery,
     setCategoryFilters,
     setThreatLevelFilters,
+    setReliableSourcesOnly,
+    setHideCountryLevel,
+    setSortBy,
     clearFilters,
   } = useEventsStore();
 
   const hasFilters =
     searchQuery ||
     categoryFilters.length > 0 ||
-    threatLevelFilters.length > 0;
+    threatLevelFilters.length > 0 ||
+    reliableSourcesOnly ||
+    hideCountryLevel;
 
   const toggleCategory = (category: EventCategory) => {
     if (categoryFilters.includes(category)) {
@@ -84,6 +101,8 @@ export function FeedFilters() {
         )}
       </div>
 
+      <QueryPackSelector />
+
       <div>
         <p className="mb-2 text-xs font-medium text-muted-foreground">
           Threat Level
@@ -122,6 +141,56 @@ export function FeedFilters() {
         </div>
       </div>
 
+      <div>
+        <p className="mb-2 text-xs font-medium text-muted-foreground">
+          Sort By
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {SORT_OPTIONS.map((option) => (
+            <Badge
+              key={option.value}
+              variant={sortBy === option.value ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setSortBy(option.value)}
+            >
+              {option.label}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-2 text-xs font-medium text-muted-foreground">
+          Sources
+        </p>
+        <div className="flex flex-wrap gap-1">
+          <Badge
+            variant={reliableSourcesOnly ? "default" : "outline"}
+            className="cursor-pointer"
+            title="Only events reported by a wire service or national outlet"
+            onClick={() => setReliableSourcesOnly(!reliableSourcesOnly)}
+          >
+            Tier 1-2 only
+          </Badge>
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-2 text-xs font-medium text-muted-foreground">
+          Location
+        </p>
+        <div className="flex flex-wrap gap-1">
+          <Badge
+            variant={hideCountryLevel ? "default" : "outline"}
+            className="cursor-pointer"
+            title="Hide events only placed at a country's centre"
+            onClick={() => setHideCountryLevel(!hideCountryLevel)}
+          >
+            Hide country-level
+          </Badge>
+        </div>
+      </div>
+
       {hasFilters && (
         <Button
           variant="ghost"
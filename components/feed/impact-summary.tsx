@@ -0,0 +1,43 @@
+"use client";
+
+import { IMPACT_COUNT_FIELDS, type EventImpact } from "@/types";
+import { formatCount } from "@/lib/impact";
+import { cn } from "@/lib/utils";
+
+interface ImpactSummaryProps {
+  impact?: EventImpact;
+  showInfrastructure?: boolean;
+  className?: string;
+}
+
+// "12 killed · 40 injured · 2M displaced"
+export function ImpactSummary({
+  impact,
+  showInfrastructure = false,
+  className,
+}: ImpactSummaryProps) {
+  if (!impact) return null;
+
+  const figures = IMPACT_COUNT_FIELDS.filter(
+    (field) => impact[field] !== undefined
+  ).map((field) => `${formatCount(impact[field]!)} ${field}`);
+  const infrastructure =
+    showInfrastructure && impact.infrastructure?.length
+      ? `Damaged: ${impact.infrastructure.join(", ")}`
+      : null;
+
+  if (figures.length === 0 && !infrastructure) return null;
+
+  return (
+    <div className={cn("text-xs", className)}>
+      {figures.length > 0 && (
+        <span className="font-medium text-red-400">{figures.join(" · ")}</span>
+      )}
+      {infrastructure && (
+        <p className="mt-0.5 text-muted-foreground">
+          {infrastructure}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryPacksStore } from "@/stores/query-packs-store";
+import { Badge } from "@/components/ui/badge";
+
+interface QueryPackSummary {
+  id: string;
+  name: string;
+  description?: string;
+  queryCount: number;
+}
+
+export function QueryPackSelector() {
+  const { selectedPackIds, togglePack } = useQueryPacksStore();
+  const [packs, setPacks] = useState<QueryPackSummary[]>([]);
+  const [defaultPackId, setDefaultPackId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/query-packs")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setPacks(data.packs || []);
+        setDefaultPackId(data.defaultPackId || null);
+      })
+      .catch((error) => {
+        console.error("Error loading query packs:", error);
+      });
+  }, []);
+
+  // Nothing to choose between
+  if (packs.length < 2) return null;
+
+  // With nothing selected the server uses its default pack. It is shown as in use but not
+  // selected, so clicking it selects it and clicking again visibly goes back to the default
+  const isImplicitDefault = (id: string) => selectedPackIds.length === 0 && id === defaultPackId;
+  const getVariant = (id: string) =>
+    selectedPackIds.includes(id) ? "default" : isImplicitDefault(id) ? "secondary" : "outline";
+
+  return (
+    <div>
+      <p className="mb-2 text-xs font-medium text-muted-foreground">
+        Query Packs
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {packs.map((pack) => (
+          <Badge
+            key={pack.id}
+            variant={getVariant(pack.id)}
+            className="cursor-pointer"
+            title={[
+              pack.description
+                ? `${pack.description} (${pack.queryCount} queries)`
+                : `${pack.queryCount} queries`,
+              isImplicitDefault(pack.id) && "Used by default while no pack is selected",
+            ]
+              .filter(Boolean)
+              .join(". ")}
+            onClick={() => togglePack(pack.id)}
+          >
+            {pack.name}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import {
   Dialog,
   DialogHeader,
@@ -22,6 +22,9 @@ import {
 import { Favicon } from "@/components/ui/favicon";
 import { cn } from "@/lib/utils";
 import { useAuthStore } from "@/stores/auth-store";
+import { useEventsStore } from "@/stores/events-store";
+import { formatCount, sumImpact } from "@/lib/impact";
+import { IMPACT_COUNT_FIELDS } from "@/types";
 import { formatVolume, formatProbability, getLeadingOutcome, type ParsedMarket } from "@/lib/polymarket";
 
 interface CountryConflictsModalProps {
@@ -106,6 +109,19 @@ export function CountryConflictsModal({
   const [activeTab, setActiveTab] = useState<TabType>("current");
   const eventSourceRef = useRef<EventSource | null>(null);
   const { accessToken } = useAuthStore();
+  const events = useEventsStore((state) => state.events);
+
+  // Reported toll across the loaded events in this country
+  const countryEvents = useMemo(
+    () =>
+      country
+        ? events.filter(
+            (event) => event.location.country?.toLowerCase() === country.toLowerCase()
+          )
+        : [],
+    [events, country]
+  );
+  const impactTotals = useMemo(() => sumImpact(countryEvents), [countryEvents]);
 
   // Prediction markets state
   const [markets, setMarkets] = useState<ParsedMarket[]>([]);
@@ -322,6 +338,25 @@ export function CountryConflictsModal({
       </DialogHeader>
 
       <DialogContent className="max-h-[60vh]">
+        {countryEvents.length > 0 && (
+          <div className="mb-4 grid grid-cols-5 gap-2 rounded-lg border border-border bg-card p-3 text-center">
+            <div>
+              <p className="text-lg font-semibold text-foreground">
+                {formatCount(countryEvents.length)}
+              </p>
+              <p className="text-xs text-muted-foreground">Events</p>
+            </div>
+            {IMPACT_COUNT_FIELDS.map((field) => (
+              <div key={field}>
+                <p className="text-lg font-semibold text-foreground">
+                  {formatCount(impactTotals[field])}
+                </p>
+                <p className="text-xs capitalize text-muted-foreground">{field}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
         {error && (
           <div className="rounded-lg bg-destructive/10 p-4 text-center">
             <p className="text-sm text-destructive">{error}</p>
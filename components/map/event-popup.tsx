@@ -1,10 +1,14 @@
 "use client";
 
 import { useState } from "react";
-import type { ThreatEvent } from "@/types";
+import { locationPrecisionLabels, overrideFieldLabels, type ThreatEvent } from "@/types";
 import { Badge } from "@/components/ui/badge";
-import { formatRelativeTime } from "@/lib/utils";
-import { ExternalLink, MapPin, ChevronDown, ChevronUp } from "lucide-react";
+import { Favicon } from "@/components/ui/favicon";
+import { formatRelativeTime, getThreatScore, isApproximateLocation } from "@/lib/utils";
+import { getLanguageName } from "@/lib/language";
+import { ImpactSummary } from "@/components/feed/impact-summary";
+import { ClassificationOverrideDialog } from "@/components/feed/classification-override-dialog";
+import { ExternalLink, MapPin, ChevronDown, ChevronUp, Newspaper, History, Languages, Gauge, PencilLine, UserCheck } from "lucide-react";
 import { Streamdown } from "streamdown";
 
 interface EventPopupProps {
@@ -13,6 +17,11 @@ interface EventPopupProps {
 
 export function EventPopup({ event }: EventPopupProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const original = event.originalText;
+  const sources = event.sources || [];
+  const revisions = event.revisions || [];
 
   return (
     <div className={`min-w-[250px] p-2 ${isExpanded ? "max-w-[500px]" : "max-w-[300px]"}`}>
@@ -24,20 +33,21 @@ export function EventPopup({ event }: EventPopupProps) {
             rel="noopener noreferrer"
             className="flex items-center gap-1 text-foreground hover:underline"
           >
-            {event.title}
+            {showOriginal && original ? original.title : event.title}
           </a>
         </h3>
         <Badge
           variant={event.threatLevel}
           className="shrink-0 text-xs capitalize"
+          title="Threat score out of 100"
         >
-          {event.threatLevel}
+          {event.threatLevel} {getThreatScore(event)}
         </Badge>
       </div>
 
       {!isExpanded ? (
         <div className="mb-2 text-xs text-muted-foreground line-clamp-3">
-          {event.summary}
+          {showOriginal && original ? original.summary : event.summary}
         </div>
       ) : (
         <div className="mb-2 max-h-[400px] overflow-y-auto rounded-md bg-muted/30 p-3">
@@ -47,18 +57,84 @@ export function EventPopup({ event }: EventPopupProps) {
         </div>
       )}
 
+      <ImpactSummary impact={event.impact} showInfrastructure className="mb-2" />
+
+      {event.threatScore && (
+        <p className="mb-2 flex items-start gap-1 text-xs text-muted-foreground">
+          <Gauge className="mt-0.5 h-3 w-3 shrink-0" />
+          <span>{event.threatScore.rationale}</span>
+        </p>
+      )}
+
+      {event.overriddenFields && event.overriddenFields.length > 0 && (
+        <p className="mb-2 flex items-center gap-1 text-xs text-primary">
+          <UserCheck className="h-3 w-3" />
+          Corrected by an analyst: {event.overriddenFields.map((field) => overrideFieldLabels[field]).join(", ")}
+        </p>
+      )}
+
+      {original && event.language && (
+        <button
+          onClick={() => setShowOriginal(!showOriginal)}
+          className="mb-2 flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <Languages className="h-3 w-3" />
+          {showOriginal
+            ? "Show English translation"
+            : `Translated from ${getLanguageName(event.language)} - show original`}
+        </button>
+      )}
+
       <div className="flex items-center gap-2 text-xs text-muted-foreground">
         <MapPin className="h-3 w-3" />
         <span>
           {event.location.placeName || event.location.country || "Unknown"}
         </span>
+        {event.location.precision && (
+          <span
+            className={isApproximateLocation(event.location) ? "text-yellow-500" : undefined}
+            title={
+              event.location.confidence !== undefined
+                ? `Geocoding confidence ${Math.round(event.location.confidence * 100)}%`
+                : undefined
+            }
+          >
+            ({locationPrecisionLabels[event.location.precision]})
+          </span>
+        )}
       </div>
 
+      {event.location.countryMismatch && (
+        <p className="mt-1 pl-5 text-xs text-yellow-500">
+          Reported in {event.location.countryMismatch.stated}, but geocoded to{" "}
+          {event.location.countryMismatch.actual}
+        </p>
+      )}
+
+      {event.locations && event.locations.length > 1 && (
+        <ul className="mt-1 space-y-0.5 pl-5 text-xs text-muted-foreground">
+          {event.locations.map(({ role, location }) => (
+            <li key={`${role}-${location.latitude}-${location.longitude}`}>
+              <span className="capitalize text-foreground">{role}:</span>{" "}
+              {location.placeName || location.country || "Unknown"}
+            </li>
+          ))}
+        </ul>
+      )}
+
       <div className="mt-2 flex items-center justify-between text-xs">
         <span className="text-muted-foreground">
           {formatRelativeTime(event.timestamp)}
         </span>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsEditing(true)}
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+            title="Correct category, threat level or location"
+          >
+            <PencilLine className="h-3 w-3" />
+            Edit
+          </button>
           {event.rawContent && (
             <button
               onClick={() => setIsExpanded(!isExpanded)}
@@ -90,16 +166,93 @@ export function EventPopup({ event }: EventPopupProps) {
         </div>
       </div>
 
+      {sources.length > 1 && (
+        <div className="mt-2 border-t border-border pt-2">
+          <div className="mb-1 flex items-center gap-1 text-xs font-medium text-muted-foreground">
+            <Newspaper className="h-3 w-3" />
+            {sources.length} corroborating sources
+          </div>
+          <ul className="max-h-[120px] space-y-1 overflow-y-auto">
+            {sources.map((source) => (
+              <li
+                key={`${source.sourceUrl}-${source.title}`}
+                className="flex items-center gap-2 text-xs"
+              >
+                {source.sourceUrl && <Favicon url={source.sourceUrl} size={12} />}
+                <a
+                  href={source.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="truncate text-foreground hover:underline"
+                  title={source.title}
+                >
+                  {source.source}: {source.title}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {revisions.length > 0 && (
+        <div className="mt-2 border-t border-border pt-2">
+          <div className="mb-1 flex items-center gap-1 text-xs font-medium text-muted-foreground">
+            <History className="h-3 w-3" />
+            Timeline
+          </div>
+          <ol className="max-h-[140px] space-y-1 overflow-y-auto border-l border-border pl-2">
+            {revisions.map((revision) => (
+              <li
+                key={revision.recordedAt}
+                className="flex items-center gap-2 text-xs text-muted-foreground"
+              >
+                <span className="w-14 shrink-0">
+                  {formatRelativeTime(revision.recordedAt)}
+                </span>
+                <Badge variant={revision.threatLevel} className="text-[10px] capitalize">
+                  {revision.threatLevel}
+                </Badge>
+                <span className="truncate" title={revision.summary}>
+                  {revision.title}
+                </span>
+              </li>
+            ))}
+            <li className="flex items-center gap-2 text-xs text-foreground">
+              <span className="w-14 shrink-0">
+                {formatRelativeTime(event.updatedAt || event.timestamp)}
+              </span>
+              <Badge variant={event.threatLevel} className="text-[10px] capitalize">
+                {event.threatLevel}
+              </Badge>
+              <span className="truncate">Current</span>
+            </li>
+          </ol>
+        </div>
+      )}
+
       <div className="mt-2 flex flex-wrap gap-1">
         <Badge variant="outline" className="text-xs capitalize">
           {event.category}
         </Badge>
+        {event.secondaryCategories?.map((category) => (
+          <Badge
+            key={category}
+            variant="outline"
+            className="text-xs capitalize text-muted-foreground"
+          >
+            {category}
+          </Badge>
+        ))}
         {event.keywords?.slice(0, 2).map((keyword) => (
           <Badge key={keyword} variant="secondary" className="text-xs">
             {keyword}
           </Badge>
         ))}
       </div>
+
+      {isEditing && (
+        <ClassificationOverrideDialog event={event} onClose={() => setIsEditing(false)} />
+      )}
     </div>
   );
 }
@@ -1,13 +1,25 @@
 "use client";
 
 import { useMapStore } from "@/stores/map-store";
-import { Shield } from "lucide-react";
+import { Route, Shield } from "lucide-react";
 
 export function MapControls() {
-  const { showMilitaryBases, toggleMilitaryBases } = useMapStore();
+  const { showMilitaryBases, toggleMilitaryBases, showArcs, toggleArcs } =
+    useMapStore();
 
   return (
-    <div className="absolute bottom-20 left-6 z-10">
+    <div className="absolute bottom-20 left-6 z-10 flex flex-col gap-2">
+      <button
+        onClick={toggleArcs}
+        className={`flex h-12 w-12 items-center justify-center rounded-full shadow-lg transition-all duration-200 ${
+          showArcs
+            ? "bg-primary text-primary-foreground hover:bg-primary/90"
+            : "bg-card/95 text-foreground hover:bg-card border border-border"
+        } backdrop-blur-sm`}
+        title={showArcs ? "Hide Event Arcs" : "Show Event Arcs"}
+      >
+        <Route className="h-5 w-5" />
+      </button>
       <button
         onClick={toggleMilitaryBases}
         className={`flex h-12 w-12 items-center justify-center rounded-full shadow-lg transition-all duration-200 ${
@@ -15,7 +15,8 @@ import Map, {
 import { useMapStore } from "@/stores/map-store";
 import { useEventsStore } from "@/stores/events-store";
 import { useAuthStore } from "@/stores/auth-store";
-import { threatLevelColors } from "@/types";
+import { threatLevelColors, type ThreatEvent } from "@/types";
+import { getThreatScore, greatCirclePath, isApproximateLocation } from "@/lib/utils";
 import { EventPopup } from "./event-popup";
 import { CountryConflictsModal } from "./country-conflicts-modal";
 import { SignInModal } from "@/components/auth/sign-in-modal";
@@ -81,8 +82,93 @@ const unclusteredPointLayer: LayerProps = {
       threatLevelColors.info,
       "#3b82f6",
     ],
-    "circle-radius": 8,
+    // Incidents corroborated by more outlets get larger markers
+    "circle-radius": ["step", ["get", "sourceCount"], 8, 2, 10, 5, 12],
+    // Approximate (region/country-level) locations draw as hollow rings
+    "circle-opacity": ["case", ["get", "approximate"], 0.2, 1],
     "circle-stroke-width": 2,
+    "circle-stroke-color": [
+      "case",
+      ["get", "approximate"],
+      [
+        "match",
+        ["get", "threatLevel"],
+        "critical",
+        threatLevelColors.critical,
+        "high",
+        threatLevelColors.high,
+        "medium",
+        threatLevelColors.medium,
+        "low",
+        threatLevelColors.low,
+        "info",
+        threatLevelColors.info,
+        "#3b82f6",
+      ],
+      "#1e293b",
+    ],
+  },
+};
+
+const sourceCountLayer: LayerProps = {
+  id: "source-count",
+  type: "symbol",
+  filter: ["all", ["!", ["has", "point_count"]], [">", ["get", "sourceCount"], 1]],
+  layout: {
+    "text-field": ["to-string", ["get", "sourceCount"]],
+    "text-font": ["DIN Pro Medium", "Arial Unicode MS Bold"],
+    "text-size": 10,
+    "text-allow-overlap": true,
+  },
+  paint: {
+    "text-color": "#ffffff",
+  },
+};
+
+// Origin -> target/affected routes for events that span several places
+const arcLayer: LayerProps = {
+  id: "event-arcs",
+  type: "line",
+  filter: ["==", ["geometry-type"], "LineString"],
+  layout: {
+    "line-cap": "round",
+  },
+  paint: {
+    "line-color": [
+      "match",
+      ["get", "threatLevel"],
+      "critical",
+      threatLevelColors.critical,
+      "high",
+      threatLevelColors.high,
+      "medium",
+      threatLevelColors.medium,
+      "low",
+      threatLevelColors.low,
+      "info",
+      threatLevelColors.info,
+      "#3b82f6",
+    ],
+    // Arcs to affected places are secondary, so they're thinner and fainter
+    "line-width": ["case", ["==", ["get", "role"], "affected"], 1, 2],
+    "line-opacity": ["case", ["==", ["get", "role"], "affected"], 0.4, 0.8],
+  },
+};
+
+const roleLocationLayer: LayerProps = {
+  id: "event-role-locations",
+  type: "circle",
+  filter: ["==", ["geometry-type"], "Point"],
+  paint: {
+    "circle-radius": 4,
+    "circle-color": [
+      "match",
+      ["get", "role"],
+      "origin",
+      "#ffffff",
+      "#94a3b8",
+    ],
+    "circle-stroke-width": 1.5,
     "circle-stroke-color": "#1e293b",
   },
 };
@@ -95,10 +181,10 @@ const heatmapLayer: LayerProps = {
     "heatmap-weight": [
       "interpolate",
       ["linear"],
-      ["get", "severity"],
+      ["get", "heatWeight"],
       0,
       0,
-      5,
+      100,
       1,
     ],
     "heatmap-intensity": ["interpolate", ["linear"], ["zoom"], 0, 1, 9, 3],
@@ -275,6 +361,7 @@ export function ThreatMap() {
     showClusters,
     entityLocations,
     showMilitaryBases,
+    showArcs,
     militaryBases,
     setMilitaryBases,
     setMilitaryBasesLoading,
@@ -285,6 +372,10 @@ export function ThreatMap() {
   const [selectedMilitaryBase, setSelectedMilitaryBase] = useState<SelectedMilitaryBase | null>(null);
   const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
   const [selectedCountryCode, setSelectedCountryCode] = useState<string | null>(null);
+  // Outline from the bundled country boundaries; without one the Mapbox boundary tiles are used
+  const [countryBoundary, setCountryBoundary] =
+    useState<GeoJSON.Feature<GeoJSON.MultiPolygon> | null>(null);
+  const [hasCountryBoundaries, setHasCountryBoundaries] = useState(false);
   const [isCountryLoading, setIsCountryLoading] = useState(false);
   const [blinkOpacity, setBlinkOpacity] = useState(0.4);
   const [showSignInModal, setShowSignInModal] = useState(false);
@@ -292,6 +383,14 @@ export function ThreatMap() {
   const requiresAuth = APP_MODE === "valyu";
 
 
+  // Check once whether the server has country boundaries, so clicks don't ask for outlines it can't give
+  useEffect(() => {
+    fetch("/api/countries/boundaries")
+      .then((response) => response.json())
+      .then((data) => setHasCountryBoundaries(data.enabled === true))
+      .catch((error) => console.error("Error checking country boundaries:", error));
+  }, []);
+
   // Fetch military bases on mount
   useEffect(() => {
     const fetchMilitaryBases = async () => {
@@ -333,6 +432,7 @@ export function ThreatMap() {
   const handleCountryModalClose = useCallback(() => {
     setSelectedCountry(null);
     setSelectedCountryCode(null);
+    setCountryBoundary(null);
     setIsCountryLoading(false);
   }, []);
 
@@ -347,6 +447,10 @@ export function ThreatMap() {
           category: event.category,
           threatLevel: event.threatLevel,
           severity: getSeverityValue(event.threatLevel),
+          // The threat score already counts the human toll, so it weighs the heatmap on its own
+          heatWeight: getThreatScore(event),
+          sourceCount: event.sources?.length ?? 1,
+          approximate: isApproximateLocation(event.location),
           timestamp: event.timestamp,
         },
         geometry: {
@@ -358,6 +462,52 @@ export function ThreatMap() {
     [filteredEvents]
   );
 
+  // One arc from each origin to every target or affected place
+  const arcsData = useMemo(() => {
+    const lines: GeoJSON.Feature<GeoJSON.LineString>[] = [];
+    const points: GeoJSON.Feature<GeoJSON.Point>[] = [];
+
+    for (const event of filteredEvents) {
+      const locations = event.locations || [];
+      const origins = locations.filter((l) => l.role === "origin");
+      const destinations = locations.filter((l) => l.role !== "origin");
+      if (origins.length === 0 || destinations.length === 0) continue;
+
+      for (const { role, location } of locations) {
+        points.push({
+          type: "Feature",
+          properties: { eventId: event.id, role, threatLevel: event.threatLevel },
+          geometry: { type: "Point", coordinates: [location.longitude, location.latitude] },
+        });
+      }
+
+      for (const origin of origins) {
+        for (const destination of destinations) {
+          lines.push({
+            type: "Feature",
+            properties: {
+              eventId: event.id,
+              role: destination.role,
+              threatLevel: event.threatLevel,
+            },
+            geometry: {
+              type: "LineString",
+              coordinates: greatCirclePath(
+                [origin.location.longitude, origin.location.latitude],
+                [destination.location.longitude, destination.location.latitude]
+              ),
+            },
+          });
+        }
+      }
+    }
+
+    return {
+      type: "FeatureCollection" as const,
+      features: [...lines, ...points],
+    };
+  }, [filteredEvents]);
+
   const entityLocationsData = useMemo(
     () => ({
       type: "FeatureCollection" as const,
@@ -466,32 +616,51 @@ export function ThreatMap() {
       const { lng, lat } = event.lngLat;
 
       try {
-        const response = await fetch(
-          `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?types=country&access_token=${MAPBOX_TOKEN}`
-        );
-        const data = await response.json();
-
-        if (data.features && data.features.length > 0) {
-          const countryFeature = data.features[0];
-          const countryName = countryFeature.place_name;
-          // Get ISO 3166-1 alpha-2 country code from short_code property
-          const countryCode = countryFeature.properties?.short_code?.toUpperCase() || null;
+        let country: { name: string; code: string | null } | null = null;
+        let boundary: GeoJSON.Feature<GeoJSON.MultiPolygon> | null = null;
+
+        // The bundled boundaries give an exact outline to highlight
+        const boundaryResponse = hasCountryBoundaries
+          ? await fetch(`/api/countries/boundaries?lat=${lat}&lng=${lng}`)
+          : null;
+        if (boundaryResponse?.ok) {
+          const feature: GeoJSON.Feature<GeoJSON.MultiPolygon, { code: string; name: string }> =
+            await boundaryResponse.json();
+          boundary = feature;
+          country = { name: feature.properties.name, code: feature.properties.code };
+        } else {
+          const response = await fetch(
+            `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?types=country&access_token=${MAPBOX_TOKEN}`
+          );
+          const data = await response.json();
+
+          if (data.features && data.features.length > 0) {
+            const countryFeature = data.features[0];
+            country = {
+              name: countryFeature.place_name,
+              // Get ISO 3166-1 alpha-2 country code from short_code property
+              code: countryFeature.properties?.short_code?.toUpperCase() || null,
+            };
+          }
+        }
 
+        if (country) {
           // Always require sign-in for country clicks (answers about a place)
           if (requiresAuth && !isAuthenticated) {
             setShowSignInModal(true);
             return;
           }
 
-          setSelectedCountry(countryName);
-          setSelectedCountryCode(countryCode);
+          setSelectedCountry(country.name);
+          setSelectedCountryCode(country.code);
+          setCountryBoundary(boundary);
           setIsCountryLoading(true);
         }
       } catch (error) {
         console.error("Error reverse geocoding:", error);
       }
     },
-    [filteredEvents, selectEvent, viewport.zoom, requiresAuth, isAuthenticated]
+    [filteredEvents, selectEvent, viewport.zoom, requiresAuth, isAuthenticated, hasCountryBoundaries]
   );
 
   const handleMouseEnter = useCallback(() => {
@@ -543,7 +712,30 @@ export function ThreatMap() {
       <ScaleControl position="bottom-right" />
 
       {/* Country highlight layer */}
-      {selectedCountryCode && (
+      {countryBoundary && (
+        <Source id="country-boundary" type="geojson" data={countryBoundary}>
+          <Layer
+            id="country-highlight"
+            type="fill"
+            paint={{
+              "fill-color": "#ef4444",
+              "fill-opacity": blinkOpacity,
+            }}
+            beforeId="waterway-label"
+          />
+          <Layer
+            id="country-highlight-outline"
+            type="line"
+            paint={{
+              "line-color": "#ef4444",
+              "line-width": 2,
+              "line-opacity": 0.8,
+            }}
+            beforeId="waterway-label"
+          />
+        </Source>
+      )}
+      {selectedCountryCode && !countryBoundary && (
         <Source
           id="country-boundaries"
           type="vector"
@@ -595,8 +787,16 @@ export function ThreatMap() {
         {showClusters && <Layer {...clusterLayer} />}
         {showClusters && <Layer {...clusterCountLayer} />}
         <Layer {...unclusteredPointLayer} />
+        <Layer {...sourceCountLayer} />
       </Source>
 
+      {showArcs && arcsData.features.length > 0 && (
+        <Source id="event-arcs" type="geojson" data={arcsData}>
+          <Layer {...arcLayer} />
+          <Layer {...roleLocationLayer} />
+        </Source>
+      )}
+
       {entityLocations.length > 0 && (
         <Source id="entity-locations" type="geojson" data={entityLocationsData}>
           <Layer {...entityLocationLayer} />
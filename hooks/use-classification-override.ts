@@ -0,0 +1,64 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useEventsStore } from "@/stores/events-store";
+import { useAuthStore } from "@/stores/auth-store";
+import type { EventCategory, ThreatEvent, ThreatLevel } from "@/types";
+
+export interface OverrideRequest {
+  category?: EventCategory;
+  threatLevel?: ThreatLevel;
+  // Place name or coordinates, geocoded on the server
+  location?: string;
+}
+
+// Save or clear an analyst's correction to an event, updating the event in place
+export function useClassificationOverride(eventId: string) {
+  const updateEvent = useEventsStore((state) => state.updateEvent);
+  const { getAccessToken } = useAuthStore();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = useCallback(
+    async (method: "PUT" | "DELETE", body?: OverrideRequest): Promise<boolean> => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        const accessToken = getAccessToken();
+        const url = `/api/overrides/${encodeURIComponent(eventId)}`;
+        const response =
+          method === "PUT"
+            ? await fetch(url, {
+                method,
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...body, accessToken }),
+              })
+            : await fetch(
+                accessToken ? `${url}?${new URLSearchParams({ accessToken })}` : url,
+                { method }
+              );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to save correction");
+        }
+
+        const event: ThreatEvent | null = data.event;
+        if (event) updateEvent(event);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [eventId, getAccessToken, updateEvent]
+  );
+
+  const saveOverride = useCallback((request: OverrideRequest) => send("PUT", request), [send]);
+  const clearOverride = useCallback(() => send("DELETE"), [send]);
+
+  return { saveOverride, clearOverride, isSaving, error };
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useEventsStore, RELIABLE_SOURCE_RANK } from "@/stores/events-store";
+import { useAuthStore } from "@/stores/auth-store";
+import type { ThreatEvent } from "@/types";
+
+const PAGE_SIZE = 100;
+
+export function useEventHistory() {
+  const {
+    events,
+    categoryFilters,
+    threatLevelFilters,
+    reliableSourcesOnly,
+    hideCountryLevel,
+    appendEvents,
+  } = useEventsStore();
+  const { getAccessToken } = useAuthStore();
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [hasMoreHistory, setHasMoreHistory] = useState(true);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  // Page back through the server-side store, starting just after the oldest loaded event.
+  // The store orders events with the same timestamp by ID, so the cursor is both
+  const loadOlderEvents = useCallback(async () => {
+    setIsLoadingHistory(true);
+    setHistoryError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+
+      if (events.length > 0) {
+        const oldest = events.reduce((current, event) => {
+          const time = new Date(event.timestamp).getTime();
+          const currentTime = new Date(current.timestamp).getTime();
+          return time < currentTime || (time === currentTime && event.id < current.id)
+            ? event
+            : current;
+        });
+        params.set("before", new Date(oldest.timestamp).toISOString());
+        params.set("beforeId", oldest.id);
+      }
+      if (categoryFilters.length > 0) {
+        params.set("category", categoryFilters.join(","));
+      }
+      if (threatLevelFilters.length > 0) {
+        params.set("threatLevel", threatLevelFilters.join(","));
+      }
+      if (reliableSourcesOnly) {
+        params.set("maxSourceRank", String(RELIABLE_SOURCE_RANK));
+      }
+      if (hideCountryLevel) {
+        params.set("excludeCountryLevel", "true");
+      }
+
+      const accessToken = getAccessToken();
+      if (accessToken) {
+        params.set("accessToken", accessToken);
+      }
+
+      const response = await fetch(`/api/events/history?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load event history");
+      }
+
+      const olderEvents: ThreatEvent[] = data.events || [];
+      appendEvents(olderEvents);
+      setHasMoreHistory(!!data.hasMore);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [
+    events,
+    categoryFilters,
+    threatLevelFilters,
+    reliableSourcesOnly,
+    hideCountryLevel,
+    appendEvents,
+    getAccessToken,
+  ]);
+
+  return {
+    loadOlderEvents,
+    isLoadingHistory,
+    hasMoreHistory,
+    historyError,
+  };
+}
@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useEventsStore } from "@/stores/events-store";
 import { useAuthStore } from "@/stores/auth-store";
+import { useQueryPacksStore } from "@/stores/query-packs-store";
 import { useCreditErrorStore, CREDIT_ERROR_MESSAGE, isCreditError } from "@/stores/credit-error-store";
 import type { ThreatEvent } from "@/types";
 
@@ -27,14 +28,18 @@ export function useEvents(options: UseEventsOptions = {}) {
     isLoading,
     error,
     setEvents,
+    addEvents,
     setLoading,
     setError,
   } = useEventsStore();
 
   const { getAccessToken, isAuthenticated } = useAuthStore();
+  const selectedPackIds = useQueryPacksStore((state) => state.selectedPackIds);
   const [requiresSignIn, setRequiresSignIn] = useState(false);
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Server cursor from the last successful fetch - later refreshes only ask for what changed
+  const cursorRef = useRef<string | null>(null);
 
   const requiresAuth = APP_MODE === "valyu";
 
@@ -56,7 +61,12 @@ export function useEvents(options: UseEventsOptions = {}) {
       const response = await fetch("/api/events", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ queries: queries || [], accessToken }),
+        body: JSON.stringify({
+          queries: queries || [],
+          packs: selectedPackIds,
+          accessToken,
+          since: cursorRef.current,
+        }),
       });
 
       const data = await response.json();
@@ -80,13 +90,23 @@ export function useEvents(options: UseEventsOptions = {}) {
       }
 
       const newEvents: ThreatEvent[] = data.events || [];
-      setEvents(newEvents);
+      if (data.incremental) {
+        addEvents(newEvents, { markNew: true });
+      } else {
+        setEvents(newEvents);
+      }
+      cursorRef.current = data.cursor || null;
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error occurred");
     } finally {
       setLoading(false);
     }
-  }, [queries, setEvents, setLoading, setError, getAccessToken, requiresAuth, isAuthenticated]);
+  }, [queries, selectedPackIds, setEvents, addEvents, setLoading, setError, getAccessToken, requiresAuth, isAuthenticated]);
+
+  // A different query set needs a full reload rather than a delta
+  useEffect(() => {
+    cursorRef.current = null;
+  }, [queries, selectedPackIds]);
 
   // Manual refresh
   const refresh = useCallback(() => {
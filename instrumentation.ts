@@ -0,0 +1,7 @@
+export async function register() {
+  // The ingestion worker uses fs and timers, so only start it in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startIngestionScheduler } = await import("./lib/ingestion");
+    startIngestionScheduler();
+  }
+}
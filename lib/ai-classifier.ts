@@ -1,36 +1,63 @@
-import OpenAI from "openai";
-import { zodResponseFormat } from "openai/helpers/zod";
+import { createHash } from "crypto";
 import { z } from "zod";
-import type { EventCategory, ThreatLevel, GeoLocation } from "@/types";
-import { geocodeLocation, extractLocationsFromText } from "./geocoding";
+import type {
+  EventCategory,
+  EventImpact,
+  EventLocation,
+  ThreatLevel,
+  GeoLocation,
+} from "@/types";
 import {
-  classifyCategory as keywordClassifyCategory,
+  geocodeCoordinates,
+  geocodeLocation,
+  extractLocationsFromText,
+} from "./geocoding";
+import { findWaterBodyNames, lookupWaterBody } from "./water-bodies";
+import { validateLocationCountry } from "./reverse-geocoding";
+import {
+  classifyCategories as keywordClassifyCategories,
   classifyThreatLevel as keywordClassifyThreatLevel,
+  extractImpact,
+  type CategoryKeywordWeights,
 } from "./event-classifier";
+import { hasImpact } from "./impact";
+import { getLLMProvider, type LLMProvider } from "./llm";
+import {
+  cacheClassification,
+  classificationCacheKey,
+  getCachedClassification,
+} from "./classification-cache";
+import { getClassifierFeedback, type ClassifierFeedback } from "./classification-overrides";
+import { UNKNOWN_LANGUAGE, type DetectedLanguage } from "./language";
+import {
+  isTranslationEnabled,
+  translateToEnglish,
+  type TranslationInput,
+} from "./translation";
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4.1-nano";
-
-const openai = OPENAI_API_KEY ? new OpenAI({ apiKey: OPENAI_API_KEY }) : null;
+const CategorySchema = z.enum([
+  "conflict",
+  "protest",
+  "disaster",
+  "diplomatic",
+  "economic",
+  "terrorism",
+  "cyber",
+  "health",
+  "environmental",
+  "military",
+  "crime",
+  "piracy",
+  "infrastructure",
+  "commodities",
+]);
 
 // Zod schema for structured event classification
 const EventClassificationSchema = z.object({
-  category: z.enum([
-    "conflict",
-    "protest",
-    "disaster",
-    "diplomatic",
-    "economic",
-    "terrorism",
-    "cyber",
-    "health",
-    "environmental",
-    "military",
-    "crime",
-    "piracy",
-    "infrastructure",
-    "commodities",
-  ]).describe("The primary category of the event"),
+  category: CategorySchema.describe("The primary category of the event"),
+  secondaryCategories: z.array(CategorySchema).describe(
+    "Other categories that also clearly apply, e.g. infrastructure for a cyberattack on a power grid, or crime for a hijacking with hostages taken. Empty if only the primary category applies"
+  ),
   threatLevel: z.enum(["critical", "high", "medium", "low", "info"]).describe(
     "Severity level: critical (imminent danger, mass casualties), high (significant threat), medium (developing situation), low (minor/contained), info (routine update)"
   ),
@@ -46,36 +73,136 @@ const EventClassificationSchema = z.object({
   country: z.string().nullable().describe(
     "The country where the event is occurring, if identifiable"
   ),
+  locationConfidence: z.number().describe(
+    "0-1: how sure you are of the primary location. Near 1 when the text names the place outright, lower when it is inferred or only the country is known."
+  ),
+  roleLocations: z.array(
+    z.object({
+      role: z.enum(["origin", "target", "affected"]).describe(
+        "origin: where an attack, action or measure came from; target: where it was aimed; affected: other places hit by it"
+      ),
+      place: z.string().describe("Specific place name, e.g. 'Sanaa, Yemen' or 'Red Sea'"),
+    })
+  ).describe(
+    "Only for events spanning several places (e.g. a missile launched from Yemen at a ship in the Red Sea, EU sanctions on Russia). Empty for single-place events."
+  ),
+  impact: z.object({
+    killed: z.number().int().nullable().describe("People killed, if the article gives a number"),
+    injured: z.number().int().nullable().describe("People injured, if the article gives a number"),
+    displaced: z.number().int().nullable().describe("People displaced or evacuated, if the article gives a number"),
+    arrested: z.number().int().nullable().describe("People arrested or detained, if the article gives a number"),
+    infrastructure: z.array(z.string()).describe(
+      "Infrastructure damaged or disrupted, in short lowercase terms (e.g. 'power grid', 'hospital', 'port'); empty if none"
+    ),
+  }).describe("Reported toll - use null for any figure the article does not state, never estimate"),
 });
 
 type EventClassification = z.infer<typeof EventClassificationSchema>;
 
+// A place picked out of the text by regex alone is often not where the event happened
+const REGEX_LOCATION_CONFIDENCE = 0.5;
+
+export interface ClassificationInput {
+  title: string;
+  content: string;
+  // Source article, for the classification cache
+  url?: string;
+  // Articles in other languages than English are translated before they are classified
+  language?: DetectedLanguage;
+}
+
 export interface ClassificationResult {
   category: EventCategory;
+  secondaryCategories: EventCategory[];
   threatLevel: ThreatLevel;
   location: GeoLocation | null;
+  locations?: EventLocation[];
+  impact?: EventImpact;
+  // The English text that was classified, when the article had to be translated
+  translation?: TranslationInput;
+  // Whether the LLM classified it or it fell back to keyword matching
+  method: "ai" | "keyword";
 }
 
-/**
- * Classify an event using OpenAI structured outputs
- * Extracts category, threat level, and location in a single API call
- */
-async function classifyWithAI(
-  title: string,
-  content: string
-): Promise<EventClassification | null> {
-  if (!openai) return null;
+export interface ClassificationMetrics {
+  total: number;
+  // Served from the classification cache, without an LLM call (also counted under ai/keyword)
+  cached: number;
+  ai: number;
+  keyword: number;
+  // Keyword fallbacks caused by a failed LLM call, rather than no LLM being configured
+  aiFailed: number;
+  llmRequests: number;
+  durationMs: number;
+}
 
-  try {
-    const completion = await openai.chat.completions.parse({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: `You are an intelligence analyst classifying global events. Analyze the headline and content to determine:
-1. Category - the type of event
+export interface ClassificationRun {
+  results: ClassificationResult[];
+  metrics: ClassificationMetrics;
+}
+
+// Geocode each role place, dropping any that can't be found
+async function geocodeRoleLocations(
+  roleLocations: EventClassification["roleLocations"]
+): Promise<EventLocation[] | undefined> {
+  const geocoded = await Promise.all(
+    roleLocations.map(async ({ role, place }) => {
+      const location = await geocodeLocation(place);
+      return location ? { role, location } : null;
+    })
+  );
+  const locations = geocoded.filter(
+    (entry): entry is EventLocation => entry !== null
+  );
+  return locations.length > 0 ? locations : undefined;
+}
+
+// A location is only as certain as the least sure step that produced it
+function capConfidence(location: GeoLocation | null, confidence: number): GeoLocation | null {
+  if (!location) return null;
+  const bounded = Math.min(Math.max(confidence, 0), 1);
+  return { ...location, confidence: Math.min(location.confidence ?? 1, bounded) };
+}
+
+// Check the coordinates against the reported country. A geocoder hit in another country is
+// usually a same-named place elsewhere, so fall back to the reported country itself;
+// coordinates stated in the article are kept and take the country they fall in
+async function checkLocationCountry(
+  location: GeoLocation | null,
+  statedCountry: string | null
+): Promise<GeoLocation | null> {
+  if (!location) return null;
+  const checked = validateLocationCountry(location, statedCountry || undefined);
+  if (!checked.countryMismatch || checked.resolver === "coordinates" || !statedCountry) {
+    return checked;
+  }
+
+  const countryLocation = await geocodeLocation(statedCountry);
+  if (!countryLocation) return checked;
+  return {
+    ...countryLocation,
+    confidence: Math.min(countryLocation.confidence ?? 1, location.confidence ?? 1),
+    countryMismatch: checked.countryMismatch,
+  };
+}
+
+// Drop the nulls the structured output uses for "not stated"
+function toEventImpact(impact: EventClassification["impact"]): EventImpact | undefined {
+  const result: EventImpact = {};
+  if (impact.killed !== null && impact.killed >= 0) result.killed = impact.killed;
+  if (impact.injured !== null && impact.injured >= 0) result.injured = impact.injured;
+  if (impact.displaced !== null && impact.displaced >= 0) result.displaced = impact.displaced;
+  if (impact.arrested !== null && impact.arrested >= 0) result.arrested = impact.arrested;
+  if (impact.infrastructure.length > 0) result.infrastructure = impact.infrastructure;
+  return hasImpact(result) ? result : undefined;
+}
+
+const CLASSIFICATION_PROMPT = `You are an intelligence analyst classifying global events. Analyze the headline and content to determine:
+1. Category - the type of event, plus any secondary categories that also clearly apply
 2. Threat Level - severity based on potential impact and urgency
-3. Location - the primary geographic location where this is happening
+3. Location - the primary geographic location where this is happening, and how confident you are in it
+4. Role locations - for events spanning several places, each place with its role (origin, target, affected)
+5. Impact - casualty, displacement and arrest figures and damaged infrastructure, only as stated in the text
 
 Categories:
 - conflict: armed conflicts, wars, military clashes
@@ -97,7 +224,7 @@ LOCATION EXTRACTION IS CRITICAL - be as granular as possible:
 - Always extract the most specific location mentioned (city > region > country)
 - Include the city name even for well-known locations (e.g., "Mariupol, Ukraine" not just "Ukraine")
 - For military/naval events, specify the base, port, or installation name
-- For maritime events, include coordinates or nearby port/coast if mentioned
+- For maritime events, name the sea, strait, gulf or port (e.g. "Gulf of Aden", "Port of Hodeidah") rather than the nearest country, and include coordinates if mentioned
 - Never use vague terms like "Middle East" or "Europe" when a specific country/city is mentioned
 - Examples of good locations: "Kramatorsk, Donetsk Oblast, Ukraine", "Bab el-Mandeb Strait", "Port of Aden, Yemen"
 
@@ -106,49 +233,193 @@ For threat level:
 - high: significant active threats, major incidents, escalating situations
 - medium: developing situations, moderate concern, ongoing tensions
 - low: minor incidents, contained events, localized issues
-- info: routine updates, announcements, analysis pieces`,
-        },
+- info: routine updates, announcements, analysis pieces`;
+
+// Only the start of an article is sent; the headline and lede carry the classification
+const ARTICLE_CHARS = 1000;
+// Shorter for the analyst corrections quoted as examples
+const EXAMPLE_CHARS = 300;
+// Output tokens per article, enough for the classification object
+const TOKENS_PER_ARTICLE = 400;
+
+// Articles per classification request; 1 sends each article on its own
+const CLASSIFICATION_BATCH_SIZE = Math.max(
+  1,
+  Number(process.env.CLASSIFICATION_BATCH_SIZE) || 1
+);
+
+// Bump when classification changes in a way the prompt and schema don't show,
+// e.g. in how locations are resolved, so cached results are redone
+const CLASSIFIER_REVISION = 2;
+
+const PROMPT_HASH = createHash("sha256")
+  .update(CLASSIFICATION_PROMPT)
+  .update(JSON.stringify(z.toJSONSchema(EventClassificationSchema)))
+  .digest("hex")
+  .slice(0, 12);
+
+// Learned weights in a fixed order, so the same weights always hash the same
+function hashKeywordWeights(weights: CategoryKeywordWeights): string {
+  const entries = Object.entries(weights)
+    .flatMap(([category, keywords]) =>
+      Object.entries(keywords || {}).map(([keyword, weight]) => `${category}:${keyword}=${weight}`)
+    )
+    .sort();
+  return createHash("sha256").update(entries.join("\n")).digest("hex").slice(0, 12);
+}
+
+// Identifies what produced a classification: the model, the prompt and the code around them.
+// The keyword classifier's weights come from analyst corrections, so they are part of its
+// version and a correction redoes its cached results. The LLM's few-shot examples are left
+// out: a new one shapes later classifications without redoing every cached one
+function classifierVersion(
+  llm: LLMProvider | null,
+  keywordWeights: CategoryKeywordWeights
+): string {
+  return llm
+    ? `${llm.name}:${llm.model}:${PROMPT_HASH}:${CLASSIFIER_REVISION}`
+    : `keyword:${CLASSIFIER_REVISION}:${hashKeywordWeights(keywordWeights)}`;
+}
+
+function describeClassification(
+  category: EventCategory,
+  threatLevel: ThreatLevel,
+  location?: GeoLocation
+): string {
+  const place = location ? `, location ${location.placeName || location.country || "unnamed"}` : "";
+  return `category ${category}, threat level ${threatLevel}${place}`;
+}
+
+// The classification prompt, followed by recent analyst corrections as worked examples
+function buildSystemPrompt(examples: ClassifierFeedback["examples"]): string {
+  if (examples.length === 0) return CLASSIFICATION_PROMPT;
+
+  const corrections = examples.map((example) => {
+    const { original } = example;
+    return [
+      `Headline: ${example.title}`,
+      `Content: ${example.content.slice(0, EXAMPLE_CHARS)}`,
+      `Classified as: ${describeClassification(original.category, original.threatLevel, example.location && original.location)}`,
+      `Analyst correction: ${describeClassification(
+        example.category || original.category,
+        example.threatLevel || original.threatLevel,
+        example.location
+      )}`,
+    ].join("\n");
+  });
+
+  return `${CLASSIFICATION_PROMPT}
+
+Analyst corrections - earlier articles an analyst reviewed and reclassified. Classify similar articles the way the analyst did:
+
+${corrections.join("\n\n")}`;
+}
+
+const BatchClassificationSchema = z.object({
+  results: z.array(
+    EventClassificationSchema.extend({
+      article: z.number().int().describe("The number of the article this result is for"),
+    })
+  ).describe("One result per article, in any order"),
+});
+
+/**
+ * Classify an event using the configured LLM's structured output
+ * Extracts category, threat level, and location in a single API call
+ */
+async function classifyWithAI(
+  llm: LLMProvider,
+  item: ClassificationInput,
+  systemPrompt: string
+): Promise<EventClassification | null> {
+  try {
+    return await llm.completeStructured(
+      [
+        { role: "system", content: systemPrompt },
         {
           role: "user",
-          content: `Headline: ${title}\n\nContent: ${content.slice(0, 1000)}`,
+          content: `Headline: ${item.title}\n\nContent: ${item.content.slice(0, ARTICLE_CHARS)}`,
         },
       ],
-      response_format: zodResponseFormat(EventClassificationSchema, "event_classification"),
-      max_tokens: 200,
-      temperature: 0,
-    });
-
-    const message = completion.choices[0]?.message;
-    if (message?.parsed) {
-      return message.parsed;
-    }
-
-    return null;
+      EventClassificationSchema,
+      "event_classification",
+      { maxTokens: TOKENS_PER_ARTICLE, temperature: 0 }
+    );
   } catch (error) {
-    console.error("AI classification error:", error);
+    console.error(`AI classification error (${llm.name}):`, error);
     return null;
   }
 }
 
 /**
- * Classify an event - uses AI if available, falls back to keyword matching
- * Returns category, threat level, and geocoded location
+ * Classify several numbered articles in one structured request
+ * Articles the model skips are sent again on their own
  */
-export async function classifyEvent(
-  title: string,
-  content: string
+async function classifyBatchWithAI(
+  llm: LLMProvider,
+  items: ClassificationInput[],
+  systemPrompt: string,
+  stats: { requests: number }
+): Promise<(EventClassification | null)[]> {
+  stats.requests++;
+  if (items.length === 1) {
+    return [await classifyWithAI(llm, items[0], systemPrompt)];
+  }
+
+  let byArticle = new Map<number, EventClassification>();
+  try {
+    const { results } = await llm.completeStructured(
+      [
+        {
+          role: "system",
+          content: `${systemPrompt}\n\nYou will be given ${items.length} numbered articles. Classify each one separately and return one result per article, with its number.`,
+        },
+        {
+          role: "user",
+          content: items
+            .map(
+              (item, i) =>
+                `Article ${i + 1}\nHeadline: ${item.title}\n\nContent: ${item.content.slice(0, ARTICLE_CHARS)}`
+            )
+            .join("\n\n---\n\n"),
+        },
+      ],
+      BatchClassificationSchema,
+      "event_classifications",
+      { maxTokens: TOKENS_PER_ARTICLE * items.length, temperature: 0 }
+    );
+    byArticle = new Map(results.map(({ article, ...result }) => [article, result]));
+  } catch (error) {
+    console.error(`AI batch classification error (${llm.name}):`, error);
+    return items.map(() => null);
+  }
+
+  return Promise.all(
+    items.map((item, i) => {
+      const result = byArticle.get(i + 1);
+      if (result) return result;
+      stats.requests++;
+      return classifyWithAI(llm, item, systemPrompt);
+    })
+  );
+}
+
+// Turn an AI classification (or, without one, keyword matching) into a geocoded result
+async function resolveClassification(
+  { title, content }: ClassificationInput,
+  aiResult: EventClassification | null,
+  keywordWeights: CategoryKeywordWeights
 ): Promise<ClassificationResult> {
   const fullText = `${title} ${content}`;
-
-  // Try AI classification first
-  const aiResult = await classifyWithAI(title, content);
+  // Coordinates stated in the article take precedence over any place name
+  const coordinates = geocodeCoordinates(fullText);
 
   if (aiResult) {
     // AI classification succeeded - geocode the location with cascading specificity
-    let location: GeoLocation | null = null;
+    let location: GeoLocation | null = coordinates;
 
     // Try most specific first: city + region + country
-    if (aiResult.city && aiResult.country) {
+    if (!location && aiResult.city && aiResult.country) {
       const cityQuery = aiResult.region
         ? `${aiResult.city}, ${aiResult.region}, ${aiResult.country}`
         : `${aiResult.city}, ${aiResult.country}`;
@@ -160,6 +431,19 @@ export async function classifyEvent(
       location = await geocodeLocation(aiResult.primaryLocation);
     }
 
+    // Events at sea: a water body in the location string, or for piracy anywhere in the article.
+    // Otherwise they fall through to a country centroid, or nowhere at all
+    if (!location) {
+      const waterText =
+        aiResult.category === "piracy"
+          ? `${aiResult.primaryLocation} ${fullText}`
+          : aiResult.primaryLocation;
+      const [waterBody] = findWaterBodyNames(waterText);
+      if (waterBody) {
+        location = lookupWaterBody(waterBody);
+      }
+    }
+
     // Try region + country
     if (!location && aiResult.region && aiResult.country) {
       location = await geocodeLocation(`${aiResult.region}, ${aiResult.country}`);
@@ -172,13 +456,25 @@ export async function classifyEvent(
 
     return {
       category: aiResult.category as EventCategory,
+      secondaryCategories: [...new Set(aiResult.secondaryCategories)].filter(
+        (category) => category !== aiResult.category
+      ),
       threatLevel: aiResult.threatLevel as ThreatLevel,
-      location,
+      location: await checkLocationCountry(
+        coordinates || capConfidence(location, aiResult.locationConfidence),
+        aiResult.country
+      ),
+      locations: await geocodeRoleLocations(aiResult.roleLocations),
+      impact: toEventImpact(aiResult.impact),
+      method: "ai",
     };
   }
 
   // Fall back to keyword-based classification
-  const category = keywordClassifyCategory(fullText);
+  const { category, secondaryCategories } = keywordClassifyCategories(
+    fullText,
+    keywordWeights
+  );
   const threatLevel = keywordClassifyThreatLevel(fullText);
 
   // Fall back to regex-based location extraction
@@ -192,14 +488,117 @@ export async function classifyEvent(
 
   return {
     category,
+    secondaryCategories,
     threatLevel,
-    location,
+    location: await checkLocationCountry(
+      coordinates || capConfidence(location, REGEX_LOCATION_CONFIDENCE),
+      null
+    ),
+    impact: extractImpact(fullText),
+    method: "keyword",
+  };
+}
+
+function needsTranslation(language: DetectedLanguage | undefined): language is DetectedLanguage {
+  return !!language && language.language !== "en" && language.language !== UNKNOWN_LANGUAGE;
+}
+
+/**
+ * Classify a set of events - uses AI if available, falls back to keyword matching per event
+ * Articles with a URL are served from the classification cache when their original text hasn't
+ * changed, translation included, so cached articles aren't translated again.
+ * LLM calls go through the shared queue, CLASSIFICATION_BATCH_SIZE articles per request.
+ * Analyst corrections are given to the LLM as examples, and weight the keyword fallback
+ */
+export async function classifyEvents(items: ClassificationInput[]): Promise<ClassificationRun> {
+  const startedAt = Date.now();
+  const llm = getLLMProvider();
+  const stats = { requests: 0 };
+  const feedback = await getClassifierFeedback();
+  const version = classifierVersion(llm, feedback.keywordWeights);
+
+  const cacheKeys = items.map((item) =>
+    item.url ? classificationCacheKey(item.url, item.title, item.content) : null
+  );
+  const results: (ClassificationResult | null)[] = await Promise.all(
+    cacheKeys.map((key) => (key ? getCachedClassification(key, version) : null))
+  );
+  const cached = results.filter(Boolean).length;
+  const uncached = items
+    .map((item, i) => ({ item, i }))
+    .filter(({ i }) => !results[i]);
+
+  // Classification expects English, so other languages are translated first
+  const translations = await Promise.all(
+    uncached.map(({ item }) =>
+      needsTranslation(item.language) ? translateToEnglish(item, item.language) : null
+    )
+  );
+  const english = uncached.map(({ item }, j) => ({ ...item, ...translations[j] }));
+
+  let aiResults: (EventClassification | null)[] = uncached.map(() => null);
+  if (llm && uncached.length > 0) {
+    const systemPrompt = buildSystemPrompt(feedback.examples);
+    const batches: ClassificationInput[][] = [];
+    for (let i = 0; i < uncached.length; i += CLASSIFICATION_BATCH_SIZE) {
+      batches.push(english.slice(i, i + CLASSIFICATION_BATCH_SIZE));
+    }
+    aiResults = (
+      await Promise.all(batches.map((batch) => classifyBatchWithAI(llm, batch, systemPrompt, stats)))
+    ).flat();
+  }
+
+  await Promise.all(
+    uncached.map(async ({ item, i }, j) => {
+      const translation = translations[j];
+      const result: ClassificationResult = {
+        ...(await resolveClassification(english[j], aiResults[j], feedback.keywordWeights)),
+        ...(translation && { translation }),
+      };
+      results[i] = result;
+      // A keyword result with an LLM configured means the call failed, as does a missing
+      // translation with a translator configured; try again next time
+      const key = cacheKeys[i];
+      const translationFailed =
+        !translation && needsTranslation(item.language) && isTranslationEnabled();
+      if (key && (!llm || result.method === "ai") && !translationFailed) {
+        await cacheClassification(key, version, result);
+      }
+    })
+  );
+
+  const classified = results as ClassificationResult[];
+  const ai = classified.filter((result) => result.method === "ai").length;
+
+  return {
+    results: classified,
+    metrics: {
+      total: classified.length,
+      cached,
+      ai,
+      keyword: classified.length - ai,
+      aiFailed: llm ? uncached.length - aiResults.filter(Boolean).length : 0,
+      llmRequests: stats.requests,
+      durationMs: Date.now() - startedAt,
+    },
   };
 }
 
+/**
+ * Classify an event - uses AI if available, falls back to keyword matching
+ * Returns category, threat level, and geocoded location
+ */
+export async function classifyEvent(
+  title: string,
+  content: string
+): Promise<ClassificationResult> {
+  const { results } = await classifyEvents([{ title, content }]);
+  return results[0];
+}
+
 /**
  * Check if AI classification is available
  */
 export function isAIClassificationEnabled(): boolean {
-  return !!openai;
+  return !!getLLMProvider();
 }
@@ -0,0 +1,162 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { ClassificationResult } from "./ai-classifier";
+import { DATA_DIR } from "./event-store";
+import { normalizeUrl } from "./utils";
+
+const CACHE_FILE = path.join(DATA_DIR, "classification-cache.json");
+
+const CACHE_SIZE = Number(process.env.CLASSIFICATION_CACHE_SIZE) || 5000;
+// Long enough to cover an article's life in the news cycle
+const TTL_MS = (Number(process.env.CLASSIFICATION_CACHE_TTL_HOURS) || 72) * 60 * 60 * 1000;
+// Batch disk writes instead of rewriting the file on every classification
+const PERSIST_DELAY_MS = 5000;
+
+interface CacheEntry {
+  result: ClassificationResult;
+  // Classifier that produced the result; any other version is a miss
+  version: string;
+  cachedAt: number;
+}
+
+export interface ClassificationCacheStats {
+  size: number;
+  capacity: number;
+  ttlHours: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+interface ClassificationCacheState {
+  // Map iteration order doubles as recency order: oldest first
+  entries: Map<string, CacheEntry> | null;
+  loadPromise: Promise<Map<string, CacheEntry>> | null;
+  persistTimer: NodeJS.Timeout | null;
+  writeChain: Promise<void>;
+  hits: number;
+  misses: number;
+}
+
+// Shared through globalThis for the same reason as the event store
+const globalForCache = globalThis as unknown as { classificationCache?: ClassificationCacheState };
+const state: ClassificationCacheState = (globalForCache.classificationCache ??= {
+  entries: null,
+  loadPromise: null,
+  persistTimer: null,
+  writeChain: Promise.resolve(),
+  hits: 0,
+  misses: 0,
+});
+
+/**
+ * Cache key for an article: its normalized URL plus a hash of the text that was classified,
+ * so an article edited after publication is classified again
+ */
+export function classificationCacheKey(url: string, title: string, content: string): string {
+  const hash = createHash("sha256").update(`${title}\n${content}`).digest("hex").slice(0, 16);
+  return `${normalizeUrl(url)}#${hash}`;
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return Date.now() - entry.cachedAt > TTL_MS;
+}
+
+async function readCacheFile(): Promise<Map<string, CacheEntry>> {
+  try {
+    const raw = await fs.readFile(CACHE_FILE, "utf-8");
+    const stored: [string, CacheEntry][] = JSON.parse(raw);
+    return new Map(stored.filter(([, entry]) => !isExpired(entry)).slice(-CACHE_SIZE));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error loading classification cache:", error);
+    }
+    return new Map();
+  }
+}
+
+async function loadEntries(): Promise<Map<string, CacheEntry>> {
+  if (state.entries) return state.entries;
+  if (!state.loadPromise) {
+    state.loadPromise = readCacheFile().then((entries) => {
+      state.entries = entries;
+      return entries;
+    });
+  }
+  return state.loadPromise;
+}
+
+function schedulePersist(entries: Map<string, CacheEntry>): void {
+  if (state.persistTimer) return;
+  state.persistTimer = setTimeout(() => {
+    state.persistTimer = null;
+    state.writeChain = state.writeChain
+      .then(async () => {
+        await fs.mkdir(DATA_DIR, { recursive: true });
+        const tmpFile = `${CACHE_FILE}.tmp`;
+        await fs.writeFile(tmpFile, JSON.stringify(Array.from(entries.entries())));
+        await fs.rename(tmpFile, CACHE_FILE);
+      })
+      .catch((error) => {
+        console.error("Error persisting classification cache:", error);
+      });
+  }, PERSIST_DELAY_MS);
+  // Don't hold the process open just to flush the cache
+  state.persistTimer.unref?.();
+}
+
+/**
+ * A cached classification, if one exists for this key from the same classifier version
+ */
+export async function getCachedClassification(
+  key: string,
+  version: string
+): Promise<ClassificationResult | null> {
+  const entries = await loadEntries();
+  const entry = entries.get(key);
+
+  if (!entry || entry.version !== version || isExpired(entry)) {
+    state.misses++;
+    return null;
+  }
+
+  // Move to the most recently used end
+  entries.delete(key);
+  entries.set(key, entry);
+  state.hits++;
+  return entry.result;
+}
+
+export async function cacheClassification(
+  key: string,
+  version: string,
+  result: ClassificationResult
+): Promise<void> {
+  const entries = await loadEntries();
+  entries.delete(key);
+  entries.set(key, { result, version, cachedAt: Date.now() });
+  // Evict the least recently used entries
+  while (entries.size > CACHE_SIZE) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+  schedulePersist(entries);
+}
+
+/**
+ * Hit/miss counts since the server started, plus the current cache size
+ */
+export async function getClassificationCacheStats(): Promise<ClassificationCacheStats> {
+  const entries = await loadEntries();
+  const lookups = state.hits + state.misses;
+  return {
+    size: entries.size,
+    capacity: CACHE_SIZE,
+    ttlHours: TTL_MS / (60 * 60 * 1000),
+    hits: state.hits,
+    misses: state.misses,
+    hitRate: lookups > 0 ? state.hits / lookups : 0,
+  };
+}
@@ -0,0 +1,254 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import {
+  EventCategory,
+  OverrideField,
+  ThreatLevel,
+  type ClassificationOverride,
+  type GeoLocation,
+  type ThreatEvent,
+} from "@/types";
+import { DATA_DIR, getEvent, saveEvents } from "./event-store";
+import {
+  keywordWeightsFromCorrections,
+  type CategoryKeywordWeights,
+} from "./event-classifier";
+import { geocodeLocation } from "./geocoding";
+import { validateLocationCountry } from "./reverse-geocoding";
+import { pinThreatLevel, scoreThreat } from "./threat-score";
+
+const OVERRIDES_FILE = path.join(DATA_DIR, "classification-overrides.json");
+
+// Recent corrections shown to the AI classifier as examples; more would crowd the prompt
+const MAX_FEW_SHOT_EXAMPLES = 8;
+
+export const ClassificationOverrideInput = z
+  .object({
+    category: EventCategory.optional(),
+    threatLevel: ThreatLevel.optional(),
+    // A place name or coordinates, geocoded like any other location
+    location: z.string().trim().min(1).max(200).optional(),
+  })
+  .refine(
+    (input) => OverrideField.options.some((field) => input[field] !== undefined),
+    "Set at least one of category, threatLevel or location"
+  );
+export type ClassificationOverrideInput = z.infer<typeof ClassificationOverrideInput>;
+
+export interface ClassifierFeedback {
+  // Most recent corrections first, as few-shot examples for the AI classifier
+  examples: ClassificationOverride[];
+  // Learned from every category correction, for the keyword fallback
+  keywordWeights: CategoryKeywordWeights;
+}
+
+interface OverrideStoreState {
+  overrides: Map<string, ClassificationOverride> | null;
+  loadPromise: Promise<Map<string, ClassificationOverride>> | null;
+  // Derived from the overrides; cleared whenever they change
+  feedback: ClassifierFeedback | null;
+  writeChain: Promise<void>;
+}
+
+// Shared through globalThis for the same reason as the event store
+const globalForOverrides = globalThis as unknown as { classificationOverrides?: OverrideStoreState };
+const state: OverrideStoreState = (globalForOverrides.classificationOverrides ??= {
+  overrides: null,
+  loadPromise: null,
+  feedback: null,
+  writeChain: Promise.resolve(),
+});
+
+async function readOverridesFile(): Promise<Map<string, ClassificationOverride>> {
+  try {
+    const raw = await fs.readFile(OVERRIDES_FILE, "utf-8");
+    const stored: ClassificationOverride[] = JSON.parse(raw);
+    return new Map(stored.map((override) => [override.eventId, override]));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error loading classification overrides:", error);
+    }
+    return new Map();
+  }
+}
+
+async function loadOverrides(): Promise<Map<string, ClassificationOverride>> {
+  if (state.overrides) return state.overrides;
+  if (!state.loadPromise) {
+    state.loadPromise = readOverridesFile().then((overrides) => {
+      state.overrides = overrides;
+      return overrides;
+    });
+  }
+  return state.loadPromise;
+}
+
+function persistOverrides(overrides: Map<string, ClassificationOverride>): Promise<void> {
+  state.feedback = null;
+  state.writeChain = state.writeChain
+    .then(async () => {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      const tmpFile = `${OVERRIDES_FILE}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(Array.from(overrides.values()), null, 2));
+      await fs.rename(tmpFile, OVERRIDES_FILE);
+    })
+    .catch((error) => {
+      console.error("Error persisting classification overrides:", error);
+    });
+  return state.writeChain;
+}
+
+export async function getClassificationOverride(
+  eventId: string
+): Promise<ClassificationOverride | null> {
+  return (await loadOverrides()).get(eventId) || null;
+}
+
+/**
+ * Every override, most recently changed first
+ */
+export async function listClassificationOverrides(): Promise<ClassificationOverride[]> {
+  const overrides = await loadOverrides();
+  return Array.from(overrides.values()).sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+}
+
+/**
+ * Geocode a place an analyst gave. Returns null when it can't be found
+ * The analyst chose it, so it counts as certain and is never flagged as a country mismatch
+ */
+export async function locateOverride(place: string): Promise<GeoLocation | null> {
+  const location = await geocodeLocation(place);
+  if (!location) return null;
+  return { ...validateLocationCountry(location), countryMismatch: undefined, confidence: 1 };
+}
+
+/**
+ * Score an event with its override applied: the corrected category and location replace
+ * the classifier's before scoring, and the threat level is held at the one the analyst set
+ * Expects the event's source reliability to be assessed, as scoreThreat does
+ */
+export function scoreWithOverride(
+  event: ThreatEvent,
+  override: ClassificationOverride | null | undefined
+): ThreatEvent {
+  if (!override) return scoreThreat({ ...event, overriddenFields: undefined });
+
+  const corrected: ThreatEvent = {
+    ...event,
+    overriddenFields: OverrideField.options.filter((field) => override[field] !== undefined),
+  };
+  if (override.category) {
+    const secondary = (event.secondaryCategories || []).filter(
+      (category) => category !== override.category
+    );
+    corrected.category = override.category;
+    corrected.secondaryCategories = secondary.length > 0 ? secondary : undefined;
+  }
+  if (override.location) {
+    corrected.location = override.location;
+  }
+
+  const scored = scoreThreat(corrected);
+  return override.threatLevel ? pinThreatLevel(scored, override.threatLevel) : scored;
+}
+
+// Put back what the classifier said for the fields the override corrected
+function withoutOverride(event: ThreatEvent, override: ClassificationOverride | null): ThreatEvent {
+  if (!override) return event;
+  const { original } = override;
+  return {
+    ...event,
+    ...(override.category && {
+      category: original.category,
+      secondaryCategories: original.secondaryCategories,
+    }),
+    ...(override.location && { location: original.location }),
+    overriddenFields: undefined,
+  };
+}
+
+/**
+ * Record an analyst's correction to a stored event and apply it
+ * Replaces any earlier override for the event. Returns the updated event, or null if it isn't stored
+ */
+export async function overrideClassification(
+  eventId: string,
+  correction: Pick<ClassificationOverride, "category" | "threatLevel" | "location">,
+  analyst?: string
+): Promise<ThreatEvent | null> {
+  const event = await getEvent(eventId);
+  if (!event) return null;
+
+  const overrides = await loadOverrides();
+  const previous = overrides.get(eventId) || null;
+  const classified = withoutOverride(event, previous);
+  const now = new Date().toISOString();
+
+  const override: ClassificationOverride = {
+    eventId,
+    ...(correction.category && { category: correction.category }),
+    ...(correction.threatLevel && { threatLevel: correction.threatLevel }),
+    ...(correction.location && { location: correction.location }),
+    original: {
+      category: classified.category,
+      secondaryCategories: classified.secondaryCategories,
+      threatLevel: classified.threatScore?.classifiedLevel ?? classified.threatLevel,
+      location: classified.location,
+    },
+    title: event.title,
+    content: event.summary,
+    createdAt: previous?.createdAt || now,
+    updatedAt: now,
+    createdBy: previous ? previous.createdBy : analyst,
+    updatedBy: analyst,
+  };
+
+  overrides.set(eventId, override);
+  await persistOverrides(overrides);
+
+  const [saved] = await saveEvents([scoreWithOverride(classified, override)]);
+  return saved;
+}
+
+/**
+ * Drop an event's override and restore the classifier's values
+ * Returns the restored event, or null if there was no override or the event is no longer stored
+ */
+export async function removeClassificationOverride(eventId: string): Promise<ThreatEvent | null> {
+  const overrides = await loadOverrides();
+  const override = overrides.get(eventId);
+  if (!override) return null;
+
+  overrides.delete(eventId);
+  await persistOverrides(overrides);
+
+  const event = await getEvent(eventId);
+  if (!event) return null;
+  const [saved] = await saveEvents([scoreWithOverride(withoutOverride(event, override), null)]);
+  return saved;
+}
+
+/**
+ * What the classifiers learn from analyst corrections
+ */
+export async function getClassifierFeedback(): Promise<ClassifierFeedback> {
+  if (state.feedback) return state.feedback;
+
+  const overrides = await listClassificationOverrides();
+  state.feedback = {
+    examples: overrides.slice(0, MAX_FEW_SHOT_EXAMPLES),
+    keywordWeights: keywordWeightsFromCorrections(
+      overrides
+        .filter((override) => override.category)
+        .map((override) => ({
+          text: `${override.title} ${override.content}`,
+          from: override.original.category,
+          to: override.category!,
+        }))
+    ),
+  };
+  return state.feedback;
+}
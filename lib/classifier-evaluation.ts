@@ -0,0 +1,292 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { EventCategory, ThreatLevel } from "@/types";
+import { classifyEvents, type ClassificationMetrics } from "./ai-classifier";
+import { haversineDistanceKm } from "./utils";
+
+// Distances a geocoded location counts as "right" within: same city, and same area
+const CLOSE_KM = 25;
+const NEAR_KM = 100;
+
+const THREAT_LEVEL_ORDER = ThreatLevel.options;
+
+export const EvaluationFixture = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  expected: z.object({
+    category: EventCategory,
+    threatLevel: ThreatLevel,
+    // null for articles with no single place, e.g. a global market story
+    location: z
+      .object({
+        name: z.string(),
+        latitude: z.number(),
+        longitude: z.number(),
+      })
+      .nullable(),
+  }),
+});
+export type EvaluationFixture = z.infer<typeof EvaluationFixture>;
+
+export interface CategoryScore {
+  category: EventCategory;
+  // Fixtures labeled with this category
+  support: number;
+  // Fixtures the classifier put in this category
+  predicted: number;
+  // null when there is nothing to divide by
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface EvaluationMiss {
+  id: string;
+  field: "category" | "threatLevel" | "location";
+  expected: string;
+  actual: string;
+}
+
+export interface EvaluationReport {
+  classifier: string;
+  total: number;
+  categoryAccuracy: number;
+  // Unweighted mean F1 over the categories present in the corpus
+  macroF1: number;
+  categories: CategoryScore[];
+  // confusion[expected][predicted] = count
+  confusion: Record<EventCategory, Record<EventCategory, number>>;
+  threatLevel: {
+    accuracy: number;
+    // Off by at most one step, e.g. high for critical
+    withinOneLevel: number;
+  };
+  location: {
+    // Fixtures with an expected location
+    labeled: number;
+    resolved: number;
+    medianErrorKm: number | null;
+    meanErrorKm: number | null;
+    // Share of labeled fixtures geocoded within CLOSE_KM / NEAR_KM; unresolved ones count as misses
+    withinCloseKm: number;
+    withinNearKm: number;
+  };
+  misses: EvaluationMiss[];
+  metrics: ClassificationMetrics;
+}
+
+/**
+ * Load a labeled corpus: a JSON array of fixtures
+ */
+export function loadEvaluationCorpus(file: string): EvaluationFixture[] {
+  return z.array(EvaluationFixture).parse(JSON.parse(readFileSync(file, "utf-8")));
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function emptyConfusion(): Record<EventCategory, Record<EventCategory, number>> {
+  const categories = EventCategory.options;
+  return Object.fromEntries(
+    categories.map((expected) => [
+      expected,
+      Object.fromEntries(categories.map((predicted) => [predicted, 0])),
+    ])
+  ) as Record<EventCategory, Record<EventCategory, number>>;
+}
+
+/**
+ * Classify every fixture with the configured classifier (see setLLMProvider) and score the results
+ * Fixtures are passed without a URL, so the classification cache never answers for the classifier
+ */
+export async function evaluateClassifier(
+  classifier: string,
+  fixtures: EvaluationFixture[]
+): Promise<EvaluationReport> {
+  const { results, metrics } = await classifyEvents(
+    fixtures.map(({ title, content }) => ({ title, content }))
+  );
+
+  const confusion = emptyConfusion();
+  const misses: EvaluationMiss[] = [];
+  const distances: number[] = [];
+  let categoryHits = 0;
+  let threatHits = 0;
+  let threatNear = 0;
+  let labeledLocations = 0;
+
+  fixtures.forEach((fixture, i) => {
+    const result = results[i];
+    const { expected } = fixture;
+
+    confusion[expected.category][result.category]++;
+    if (result.category === expected.category) {
+      categoryHits++;
+    } else {
+      misses.push({
+        id: fixture.id,
+        field: "category",
+        expected: expected.category,
+        actual: result.category,
+      });
+    }
+
+    const levelOffset = Math.abs(
+      THREAT_LEVEL_ORDER.indexOf(result.threatLevel) -
+        THREAT_LEVEL_ORDER.indexOf(expected.threatLevel)
+    );
+    if (levelOffset === 0) threatHits++;
+    if (levelOffset <= 1) threatNear++;
+    if (levelOffset > 0) {
+      misses.push({
+        id: fixture.id,
+        field: "threatLevel",
+        expected: expected.threatLevel,
+        actual: result.threatLevel,
+      });
+    }
+
+    if (!expected.location) return;
+    labeledLocations++;
+    if (!result.location) {
+      misses.push({ id: fixture.id, field: "location", expected: expected.location.name, actual: "none" });
+      return;
+    }
+    const distance = haversineDistanceKm(
+      expected.location.latitude,
+      expected.location.longitude,
+      result.location.latitude,
+      result.location.longitude
+    );
+    distances.push(distance);
+    if (distance > CLOSE_KM) {
+      misses.push({
+        id: fixture.id,
+        field: "location",
+        expected: expected.location.name,
+        actual: `${result.location.placeName || result.location.country || "unnamed"} (${Math.round(distance)} km off)`,
+      });
+    }
+  });
+
+  // Only categories that appear in the corpus or the predictions say anything
+  const categories: CategoryScore[] = EventCategory.options
+    .map((category) => {
+      const support = Object.values(confusion[category]).reduce((sum, count) => sum + count, 0);
+      const predicted = EventCategory.options.reduce(
+        (sum, expected) => sum + confusion[expected][category],
+        0
+      );
+      const truePositives = confusion[category][category];
+      const precision = ratio(truePositives, predicted);
+      const recall = ratio(truePositives, support);
+      const f1 =
+        precision === null || recall === null
+          ? null
+          : precision + recall > 0
+            ? (2 * precision * recall) / (precision + recall)
+            : 0;
+      return { category, support, predicted, precision, recall, f1 };
+    })
+    .filter((score) => score.support > 0 || score.predicted > 0);
+
+  const labeled = categories.filter((score) => score.support > 0);
+
+  return {
+    classifier,
+    total: fixtures.length,
+    categoryAccuracy: ratio(categoryHits, fixtures.length) ?? 0,
+    macroF1: ratio(labeled.reduce((sum, score) => sum + (score.f1 ?? 0), 0), labeled.length) ?? 0,
+    categories,
+    confusion,
+    threatLevel: {
+      accuracy: ratio(threatHits, fixtures.length) ?? 0,
+      withinOneLevel: ratio(threatNear, fixtures.length) ?? 0,
+    },
+    location: {
+      labeled: labeledLocations,
+      resolved: distances.length,
+      medianErrorKm: median(distances),
+      meanErrorKm: ratio(distances.reduce((sum, distance) => sum + distance, 0), distances.length),
+      withinCloseKm: ratio(distances.filter((d) => d <= CLOSE_KM).length, labeledLocations) ?? 0,
+      withinNearKm: ratio(distances.filter((d) => d <= NEAR_KM).length, labeledLocations) ?? 0,
+    },
+    misses,
+    metrics,
+  };
+}
+
+function percent(value: number | null): string {
+  return value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
+
+function kilometres(value: number | null): string {
+  return value === null ? "-" : `${value.toFixed(1)} km`;
+}
+
+/**
+ * Plain-text rendering of a report for the terminal
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const lines: string[] = [];
+  const { threatLevel, location } = report;
+
+  lines.push(`== ${report.classifier} (${report.total} articles) ==`);
+  lines.push(`Category accuracy:     ${percent(report.categoryAccuracy)}   macro F1 ${percent(report.macroF1)}`);
+  lines.push(
+    `Threat level accuracy: ${percent(threatLevel.accuracy)}   within one level ${percent(threatLevel.withinOneLevel)}`
+  );
+  lines.push(
+    `Location:              ${location.resolved}/${location.labeled} geocoded   median error ${kilometres(location.medianErrorKm)}   mean ${kilometres(location.meanErrorKm)}`
+  );
+  lines.push(
+    `                       within ${CLOSE_KM} km ${percent(location.withinCloseKm)}   within ${NEAR_KM} km ${percent(location.withinNearKm)}`
+  );
+
+  lines.push("", "Category        Support  Predicted  Precision  Recall     F1");
+  for (const score of report.categories) {
+    lines.push(
+      [
+        score.category.padEnd(15),
+        String(score.support).padStart(7),
+        String(score.predicted).padStart(10),
+        percent(score.precision).padStart(10),
+        percent(score.recall).padStart(7),
+        percent(score.f1).padStart(7),
+      ].join(" ")
+    );
+  }
+
+  // Rows are the labels, columns the predictions, both shortened to four letters
+  const shown = report.categories.map((score) => score.category);
+  lines.push("", "Confusion matrix (rows: expected, columns: predicted)");
+  lines.push(`${"".padEnd(15)} ${shown.map((category) => category.slice(0, 4).padStart(5)).join("")}`);
+  for (const expected of shown) {
+    lines.push(
+      `${expected.padEnd(15)} ${shown
+        .map((predicted) => {
+          const count = report.confusion[expected][predicted];
+          return (count ? String(count) : ".").padStart(5);
+        })
+        .join("")}`
+    );
+  }
+
+  if (report.misses.length > 0) {
+    lines.push("", "Misses");
+    for (const miss of report.misses) {
+      lines.push(`  ${miss.id.padEnd(34)} ${miss.field.padEnd(12)} expected ${miss.expected}, got ${miss.actual}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,215 @@
+export type CoordinateFormat = "decimal" | "dms" | "mgrs";
+
+export interface ParsedCoordinates {
+  latitude: number;
+  longitude: number;
+  format: CoordinateFormat;
+  // The matched text, e.g. "12°35'N 43°20'E"
+  text: string;
+}
+
+// One axis: degrees, optional minutes and seconds, then the hemisphere ("12°35'30\"N", "15.3N")
+const AXIS = String.raw`(\d{1,3}(?:\.\d+)?)\s*(°|º|deg(?:rees)?)?\s*(?:(\d{1,2}(?:\.\d+)?)\s*['′’]\s*(?:(\d{1,2}(?:\.\d+)?)\s*(?:["″”]|'')\s*)?)?`;
+const HEMISPHERE_PAIR = new RegExp(
+  String.raw`${AXIS}([NS])\b[\s,/;]*${AXIS}([EW])\b`,
+  "g"
+);
+
+// Signed decimal degrees, e.g. "12.5834, 43.3321" - at least three decimals so
+// ordinary number pairs in prose don't match
+const DECIMAL_PAIR = /(?<![\d.])(-?\d{1,2}\.\d{3,})\s*,\s*(-?\d{1,3}\.\d{3,})(?![\d.])/g;
+
+// Zone, latitude band, 100km square, then an even run of easting/northing digits
+const MGRS = /\b(\d{1,2})([C-HJ-NP-X])\s?([A-HJ-NP-Z])([A-HJ-NP-V])\s?(\d{2,5}\s\d{2,5}|\d{4,10})\b/g;
+
+function isValidPosition(latitude: number, longitude: number): boolean {
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+function toDecimal(degrees: string, minutes?: string, seconds?: string): number {
+  return Number(degrees) + Number(minutes || 0) / 60 + Number(seconds || 0) / 3600;
+}
+
+// Bare integers like "15 N" are too likely to be something else, so an axis needs
+// a degree sign, a decimal point or minutes to count as a coordinate
+function looksLikeCoordinate(degrees: string, degreeSign?: string, minutes?: string): boolean {
+  return !!degreeSign || degrees.includes(".") || minutes !== undefined;
+}
+
+function parseHemispherePairs(text: string): (ParsedCoordinates & { index: number })[] {
+  const results: (ParsedCoordinates & { index: number })[] = [];
+  for (const match of text.matchAll(HEMISPHERE_PAIR)) {
+    const [, latDeg, latSign, latMin, latSec, latHem, lngDeg, lngSign, lngMin, lngSec, lngHem] =
+      match;
+    if (
+      !looksLikeCoordinate(latDeg, latSign, latMin) ||
+      !looksLikeCoordinate(lngDeg, lngSign, lngMin)
+    ) {
+      continue;
+    }
+
+    const latitude = toDecimal(latDeg, latMin, latSec) * (latHem === "S" ? -1 : 1);
+    const longitude = toDecimal(lngDeg, lngMin, lngSec) * (lngHem === "W" ? -1 : 1);
+    if (!isValidPosition(latitude, longitude)) continue;
+
+    results.push({
+      latitude,
+      longitude,
+      format: latMin !== undefined || lngMin !== undefined ? "dms" : "decimal",
+      text: match[0].trim(),
+      index: match.index,
+    });
+  }
+  return results;
+}
+
+function parseDecimalPairs(text: string): (ParsedCoordinates & { index: number })[] {
+  const results: (ParsedCoordinates & { index: number })[] = [];
+  for (const match of text.matchAll(DECIMAL_PAIR)) {
+    const latitude = Number(match[1]);
+    const longitude = Number(match[2]);
+    if (!isValidPosition(latitude, longitude)) continue;
+    results.push({ latitude, longitude, format: "decimal", text: match[0], index: match.index });
+  }
+  return results;
+}
+
+// Lowest UTM northing in each MGRS latitude band, for placing the 100km row letter
+const BAND_MIN_NORTHING: Record<string, number> = {
+  C: 1100000, D: 2000000, E: 2800000, F: 3700000, G: 4600000, H: 5500000,
+  J: 6400000, K: 7300000, L: 8200000, M: 9100000, N: 0, P: 800000,
+  Q: 1700000, R: 2600000, S: 3500000, T: 4400000, U: 5300000, V: 6200000,
+  W: 7000000, X: 7900000,
+};
+
+const COLUMN_SETS = ["ABCDEFGH", "JKLMNPQR", "STUVWXYZ"];
+const ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV";
+
+/**
+ * Inverse transverse Mercator on the WGS84 ellipsoid
+ */
+function utmToLatLng(
+  zone: number,
+  southern: boolean,
+  easting: number,
+  northing: number
+): { latitude: number; longitude: number } {
+  const k0 = 0.9996;
+  const a = 6378137;
+  const f = 1 / 298.257223563;
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  const x = easting - 500000;
+  const y = southern ? northing - 10000000 : northing;
+
+  const mu = y / k0 / (a * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi1);
+  const cosPhi = Math.cos(phi1);
+  const tanPhi = Math.tan(phi1);
+  const n1 = a / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const t1 = tanPhi ** 2;
+  const c1 = ep2 * cosPhi ** 2;
+  const r1 = (a * (1 - e2)) / (1 - e2 * sinPhi ** 2) ** 1.5;
+  const d = x / (n1 * k0);
+
+  const latitude =
+    phi1 -
+    ((n1 * tanPhi) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720);
+  const longitude =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) /
+    cosPhi;
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  return {
+    latitude: (latitude * 180) / Math.PI,
+    longitude: centralMeridian + (longitude * 180) / Math.PI,
+  };
+}
+
+/**
+ * Convert an MGRS grid reference to the centre of the square it names
+ * Returns null for references that don't describe a valid square
+ */
+export function mgrsToLatLng(reference: string): { latitude: number; longitude: number } | null {
+  const match = /^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d*)$/.exec(
+    reference.toUpperCase().replace(/\s+/g, "")
+  );
+  if (!match) return null;
+
+  const [, zoneText, band, column, row, digits] = match;
+  const zone = Number(zoneText);
+  if (zone < 1 || zone > 60 || digits.length % 2 !== 0 || digits.length > 10) return null;
+
+  const columnIndex = COLUMN_SETS[(zone - 1) % 3].indexOf(column);
+  if (columnIndex < 0) return null;
+  // Even zones start their row lettering five letters in
+  const rowIndex = (ROW_LETTERS.indexOf(row) - (zone % 2 === 0 ? 5 : 0) + 20) % 20;
+
+  const precision = digits.length / 2;
+  const squareSize = 10 ** (5 - precision);
+  const easting =
+    (columnIndex + 1) * 100000 + Number(digits.slice(0, precision) || 0) * squareSize;
+  let northing = rowIndex * 100000 + Number(digits.slice(precision) || 0) * squareSize;
+  // Row letters repeat every 2,000km; lift the northing into the band's range
+  while (northing < BAND_MIN_NORTHING[band]) northing += 2000000;
+
+  const position = utmToLatLng(
+    zone,
+    band < "N",
+    easting + squareSize / 2,
+    northing + squareSize / 2
+  );
+  return isValidPosition(position.latitude, position.longitude) ? position : null;
+}
+
+function parseMgrs(text: string): (ParsedCoordinates & { index: number })[] {
+  const results: (ParsedCoordinates & { index: number })[] = [];
+  for (const match of text.matchAll(MGRS)) {
+    const digits = match[5].replace(/\s+/g, "");
+    if (digits.length % 2 !== 0) continue;
+    const position = mgrsToLatLng(`${match[1]}${match[2]}${match[3]}${match[4]}${digits}`);
+    if (!position) continue;
+    results.push({ ...position, format: "mgrs", text: match[0], index: match.index });
+  }
+  return results;
+}
+
+/**
+ * Find explicit coordinates in text, in order of appearance
+ * Handles hemisphere notation ("12°35'N 43°20'E", "15.3N 42.1E"),
+ * signed decimal degrees ("12.5834, 43.3321") and MGRS grid references ("38PKS1234567890")
+ */
+export function parseCoordinates(text: string): ParsedCoordinates[] {
+  const found = [...parseHemispherePairs(text), ...parseMgrs(text), ...parseDecimalPairs(text)];
+
+  // Drop matches nested inside an earlier, longer one
+  const sorted = found.sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+  const results: ParsedCoordinates[] = [];
+  let coveredUntil = -1;
+  for (const { index, ...coordinates } of sorted) {
+    if (index < coveredUntil) continue;
+    results.push(coordinates);
+    coveredUntil = index + coordinates.text.length;
+  }
+  return results;
+}
+
+export function formatCoordinates(latitude: number, longitude: number): string {
+  const lat = `${Math.abs(latitude).toFixed(3)}°${latitude < 0 ? "S" : "N"}`;
+  const lng = `${Math.abs(longitude).toFixed(3)}°${longitude < 0 ? "W" : "E"}`;
+  return `${lat}, ${lng}`;
+}
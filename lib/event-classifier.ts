@@ -1,10 +1,14 @@
-import type {
-  EventCategory,
-  ThreatLevel,
-  ThreatEvent,
-  GeoLocation,
+import {
+  IMPACT_COUNT_FIELDS,
+  type EventCategory,
+  type EventImpact,
+  type ImpactCountField,
+  type ThreatLevel,
+  type ThreatEvent,
+  type GeoLocation,
 } from "@/types";
 import { generateEventId } from "./utils";
+import { hasImpact } from "./impact";
 
 const BOILERPLATE_PATTERNS = [
   /skip to (?:main |primary )?content/gi,
@@ -311,25 +315,107 @@ const THREAT_LEVEL_KEYWORDS: Record<ThreatLevel, string[]> = {
   ],
 };
 
-export function classifyCategory(text: string): EventCategory {
-  const lowerText = text.toLowerCase();
-  let bestMatch: EventCategory = "conflict";
-  let bestScore = 0;
-
-  (Object.entries(CATEGORY_KEYWORDS) as [EventCategory, string[]][]).forEach(
-    ([category, keywords]) => {
-      const score = keywords.reduce((acc, keyword) => {
-        return acc + (lowerText.includes(keyword.toLowerCase()) ? 1 : 0);
-      }, 0);
-
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = category;
-      }
+// Categories scoring at least this share of the best score are kept as secondary categories
+const SECONDARY_CATEGORY_RATIO = 0.5;
+// A single keyword hit is too weak to add a category on its own
+const MIN_SECONDARY_CATEGORY_SCORE = 2;
+const MAX_SECONDARY_CATEGORIES = 2;
+
+export interface CategoryAssignment {
+  category: EventCategory;
+  secondaryCategories: EventCategory[];
+}
+
+// Per-category keyword weights learned from analyst corrections; keywords not listed count 1
+export type CategoryKeywordWeights = Partial<Record<EventCategory, Record<string, number>>>;
+
+// A category the classifier gave an article, and the one an analyst corrected it to
+export interface CategoryCorrection {
+  text: string;
+  from: EventCategory;
+  to: EventCategory;
+}
+
+// Each correction moves a keyword's weight this much, within the bounds
+const CORRECTION_WEIGHT_STEP = 0.5;
+const MIN_KEYWORD_WEIGHT = 0;
+const MAX_KEYWORD_WEIGHT = 3;
+
+function matchingKeywords(lowerText: string, category: EventCategory): string[] {
+  return CATEGORY_KEYWORDS[category].filter((keyword) => lowerText.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Learn keyword weights from analyst corrections: keywords in a corrected article count
+ * for the category it was corrected to, and against the one it was wrongly given
+ */
+export function keywordWeightsFromCorrections(
+  corrections: CategoryCorrection[]
+): CategoryKeywordWeights {
+  const weights: CategoryKeywordWeights = {};
+  const adjust = (category: EventCategory, keyword: string, step: number) => {
+    const categoryWeights = (weights[category] ??= {});
+    categoryWeights[keyword] = Math.min(
+      Math.max((categoryWeights[keyword] ?? 1) + step, MIN_KEYWORD_WEIGHT),
+      MAX_KEYWORD_WEIGHT
+    );
+  };
+
+  for (const { text, from, to } of corrections) {
+    if (from === to) continue;
+    const lowerText = text.toLowerCase();
+    for (const keyword of matchingKeywords(lowerText, to)) {
+      adjust(to, keyword, CORRECTION_WEIGHT_STEP);
     }
-  );
+    for (const keyword of matchingKeywords(lowerText, from)) {
+      adjust(from, keyword, -CORRECTION_WEIGHT_STEP);
+    }
+  }
+  return weights;
+}
+
+/**
+ * Score every category by keyword hits: the best is the primary category, and close
+ * runners-up are secondary ones (a ransomware attack on a power grid is cyber and infrastructure)
+ * Hits count by their learned weight, if any
+ */
+export function classifyCategories(
+  text: string,
+  weights: CategoryKeywordWeights = {}
+): CategoryAssignment {
+  const lowerText = text.toLowerCase();
+
+  const scored = (Object.keys(CATEGORY_KEYWORDS) as EventCategory[])
+    .map((category) => ({
+      category,
+      score: matchingKeywords(lowerText, category).reduce(
+        (sum, keyword) => sum + (weights[category]?.[keyword] ?? 1),
+        0
+      ),
+    }))
+    .filter(({ score }) => score > 0)
+    // Stable, so ties go to the category listed first
+    .sort((a, b) => b.score - a.score);
+
+  const [best, ...rest] = scored;
+  if (!best) {
+    return { category: "conflict", secondaryCategories: [] };
+  }
 
-  return bestMatch;
+  return {
+    category: best.category,
+    secondaryCategories: rest
+      .filter(
+        ({ score }) =>
+          score >= MIN_SECONDARY_CATEGORY_SCORE && score >= best.score * SECONDARY_CATEGORY_RATIO
+      )
+      .slice(0, MAX_SECONDARY_CATEGORIES)
+      .map(({ category }) => category),
+  };
+}
+
+export function classifyCategory(text: string): EventCategory {
+  return classifyCategories(text).category;
 }
 
 export function classifyThreatLevel(text: string): ThreatLevel {
@@ -383,6 +469,130 @@ export function extractKeywords(text: string): string[] {
   return [...new Set(found)].slice(0, 10);
 }
 
+// A figure as written in news copy: "12", "1,200", "1.5 million", "three", "dozens"
+const NUMBER_PATTERN =
+  "(\\d[\\d,]*(?:\\.\\d+)?(?:\\s*(?:thousand|million))?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|dozens|dozen|hundreds|thousands)";
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  dozen: 12,
+  // Vague plurals count as their lower bound
+  dozens: 24,
+  hundreds: 200,
+  thousands: 2000,
+};
+
+const IMPACT_TERMS: Record<ImpactCountField, string> = {
+  killed: "(?:killed|dead|deaths|died|fatalities|lives lost|killing)",
+  injured: "(?:injured|wounded|hurt|injuries)",
+  displaced: "(?:displaced|evacuated|homeless|fled|forced from their homes|refugees)",
+  arrested: "(?:arrested|detained|taken into custody|arrests|detentions)",
+};
+
+const INFRASTRUCTURE_TERMS = [
+  "power grid",
+  "power plant",
+  "power station",
+  "substation",
+  "hospital",
+  "bridge",
+  "airport",
+  "port",
+  "dam",
+  "pipeline",
+  "refinery",
+  "railway",
+  "water supply",
+  "school",
+  "telecommunications",
+  "internet",
+];
+
+const DAMAGE_PATTERN =
+  /\b(damaged|destroyed|hit|struck|collapsed|knocked out|cut off|disrupted|shut down|flooded|bombed|shelled|outage)\b/i;
+
+function parseFigure(raw: string): number | null {
+  const value = raw.toLowerCase().trim();
+  if (value in NUMBER_WORDS) return NUMBER_WORDS[value];
+
+  const match = value.match(/^([\d,]+(?:\.\d+)?)\s*(thousand|million)?$/);
+  if (!match) return null;
+  const base = parseFloat(match[1].replace(/,/g, ""));
+  if (isNaN(base)) return null;
+  const multiplier =
+    match[2] === "million" ? 1_000_000 : match[2] === "thousand" ? 1000 : 1;
+  return Math.round(base * multiplier);
+}
+
+// Figures a few words before the term ("at least 12 people were killed")
+// or right after it ("killing 12"), plus "death toll rose to 40" for the killed figure
+function extractCount(text: string, field: ImpactCountField): number | undefined {
+  const term = IMPACT_TERMS[field];
+  const patterns = [
+    new RegExp(`\\b${NUMBER_PATTERN}\\s+(?:[a-z-]+\\s+){0,3}${term}\\b`, "gi"),
+    new RegExp(`\\b${term}\\s+(?:at least\\s+|more than\\s+|over\\s+|nearly\\s+|about\\s+)?${NUMBER_PATTERN}\\b`, "gi"),
+  ];
+  if (field === "killed") {
+    patterns.push(
+      new RegExp(`\\bdeath toll\\s+(?:\\w+\\s+){0,2}(?:to|of|at)\\s+(?:at least\\s+)?${NUMBER_PATTERN}\\b`, "gi")
+    );
+  }
+
+  let highest: number | undefined;
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const figure = parseFigure(match[1]);
+      // Skip years that happen to sit next to a term ("the 2023 deaths")
+      if (figure !== null && figure > 0 && !/^(19|20)\d{2}$/.test(match[1])) {
+        highest = Math.max(highest ?? 0, figure);
+      }
+    }
+  }
+  return highest;
+}
+
+/**
+ * Pull casualty, displacement and arrest figures plus damaged infrastructure out of article text
+ * Keyword fallback for when AI classification isn't available
+ */
+export function extractImpact(text: string): EventImpact | undefined {
+  const impact: EventImpact = {};
+
+  for (const field of IMPACT_COUNT_FIELDS) {
+    const count = extractCount(text, field);
+    if (count !== undefined) {
+      impact[field] = count;
+    }
+  }
+
+  const damaged = new Set<string>();
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (!DAMAGE_PATTERN.test(sentence)) continue;
+    const lower = sentence.toLowerCase();
+    for (const term of INFRASTRUCTURE_TERMS) {
+      if (new RegExp(`\\b${term}s?\\b`).test(lower)) {
+        damaged.add(term);
+      }
+    }
+  }
+  if (damaged.size > 0) {
+    impact.infrastructure = Array.from(damaged);
+  }
+
+  return hasImpact(impact) ? impact : undefined;
+}
+
 export function createThreatEvent(
   title: string,
   content: string,
@@ -394,19 +604,23 @@ export function createThreatEvent(
   const cleanedTitle = cleanContent(title);
   const cleanedContent = cleanContent(content);
   const fullText = `${cleanedTitle} ${cleanedContent}`;
+  const eventTimestamp = timestamp || new Date().toISOString();
+  const { category, secondaryCategories } = classifyCategories(fullText);
 
   return {
-    id: generateEventId(),
+    id: generateEventId({ sourceUrl, title: cleanedTitle, timestamp: eventTimestamp }),
     title: cleanedTitle,
     summary: cleanedContent.slice(0, 500),
-    category: classifyCategory(fullText),
+    category,
+    ...(secondaryCategories.length > 0 && { secondaryCategories }),
     threatLevel: classifyThreatLevel(fullText),
     location,
-    timestamp: timestamp || new Date().toISOString(),
+    timestamp: eventTimestamp,
     source,
     sourceUrl,
     entities: extractEntities(fullText),
     keywords: extractKeywords(fullText),
     rawContent: cleanedContent,
+    impact: extractImpact(fullText),
   };
 }
@@ -0,0 +1,91 @@
+import { ThreatLevel, type ThreatEvent } from "@/types";
+import { queryEvents } from "./event-store";
+import {
+  matchesIncident,
+  mergeIncidentSources,
+  mergeSecondaryCategories,
+} from "./incident-clustering";
+import { mergeImpact } from "./impact";
+import { unscored } from "./threat-score";
+import { normalizeUrl } from "./utils";
+
+// Stored incidents this far before the earliest new report are candidates for a match
+const MATCH_WINDOW_MS = 48 * 60 * 60 * 1000;
+const MAX_CANDIDATES = 1000;
+
+function severity(event: ThreatEvent): number {
+  return ThreatLevel.options.indexOf(event.threatLevel);
+}
+
+function sharesSourceUrl(a: ThreatEvent, b: ThreatEvent): boolean {
+  const urls = new Set(
+    mergeIncidentSources([a])
+      .map((source) => source.sourceUrl)
+      .filter((url): url is string => !!url)
+      .map(normalizeUrl)
+  );
+  return mergeIncidentSources([b]).some(
+    (source) => source.sourceUrl && urls.has(normalizeUrl(source.sourceUrl))
+  );
+}
+
+/**
+ * Fold a new report into a stored incident
+ * The incident keeps its ID; a more severe (or equally severe and newer) report
+ * becomes the headline, and the store records what it replaced as a revision
+ */
+function mergeIntoIncident(existing: ThreatEvent, incoming: ThreatEvent): ThreatEvent {
+  // Compare and rescore from the classified level, not the score-derived one
+  const current = unscored(existing);
+  const takesOver =
+    severity(incoming) < severity(current) ||
+    (severity(incoming) === severity(current) &&
+      new Date(incoming.timestamp).getTime() >= new Date(current.timestamp).getTime());
+  const primary = takesOver ? incoming : current;
+
+  return {
+    ...primary,
+    id: existing.id,
+    secondaryCategories: mergeSecondaryCategories(primary.category, [current, incoming]),
+    entities: [...new Set([...(current.entities || []), ...(incoming.entities || [])])],
+    sources: mergeIncidentSources([current, incoming]),
+    impact: mergeImpact([current.impact, incoming.impact]),
+  };
+}
+
+/**
+ * Attach freshly clustered incidents to the incidents already in the store
+ * Follow-up reports update the stored incident instead of becoming unrelated events
+ */
+export async function reconcileWithStored(incidents: ThreatEvent[]): Promise<ThreatEvent[]> {
+  if (incidents.length === 0) return incidents;
+
+  const earliest = Math.min(
+    ...incidents.map((incident) => new Date(incident.timestamp).getTime())
+  );
+  const { events: candidates } = await queryEvents({
+    from: new Date(earliest - MATCH_WINDOW_MS).toISOString(),
+    limit: MAX_CANDIDATES,
+  });
+
+  const reconciled = new Map<string, ThreatEvent>();
+
+  for (const incident of incidents) {
+    const match =
+      candidates.find((candidate) => candidate.id === incident.id) ||
+      candidates.find((candidate) => sharesSourceUrl(candidate, incident)) ||
+      candidates.find((candidate) => matchesIncident(candidate, incident));
+
+    if (!match) {
+      reconciled.set(incident.id, incident);
+      continue;
+    }
+
+    // Several new incidents can land on the same stored one, so later ones fold into the merged copy
+    const merged = mergeIntoIncident(match, incident);
+    reconciled.set(match.id, merged);
+    candidates[candidates.indexOf(match)] = merged;
+  }
+
+  return Array.from(reconciled.values());
+}
@@ -0,0 +1,203 @@
+import { classifyEvents, type ClassificationMetrics } from "./ai-classifier";
+import { generateEventId, getThreatScore, normalizeUrl } from "./utils";
+import { saveEvents } from "./event-store";
+import { clusterEvents } from "./incident-clustering";
+import { reconcileWithStored } from "./event-lifecycle";
+import { detectLanguage } from "./language";
+import { assessSourceReliability, loadSourceRegistry } from "./source-registry";
+import { getClassificationOverride, scoreWithOverride } from "./classification-overrides";
+import { extractKeywords, extractEntities } from "./event-classifier";
+import type { ThreatEvent } from "@/types";
+
+// Clean boilerplate from content
+function cleanContent(text: string): string {
+  return text
+    .replace(/skip to (?:main |primary )?content/gi, "")
+    .replace(/keyboard shortcuts?/gi, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+// Filter out generic informational pages (blocked domains live in the source registry)
+const GENERIC_TITLE_PATTERNS = [
+  /\| topic$/i,
+  /\| homeland security$/i,
+  /\| fortinet$/i,
+  /^natural disasters$/i,
+  /^countering terrorism$/i,
+  /^maritime piracy:/i,
+  /^assessment of global/i,
+  /^recent cyber attacks in \d{4}/i,
+];
+
+// Validate location is real (not garbage text)
+function isValidLocation(location: { placeName?: string; country?: string }): boolean {
+  const name = location.placeName || location.country || "";
+  // Skip if contains non-Latin scripts that aren't common (Arabic, Chinese, etc are ok)
+  // But garbage like "گۆپاڵ" or "Routes" should be filtered
+  if (name.length < 2) return false;
+  if (name.toLowerCase() === "routes") return false;
+  if (/^[a-z\s]+$/i.test(name) && name.length < 3) return false;
+  // Check for suspiciously short or generic names
+  if (["unknown", "global", "worldwide", "n/a"].includes(name.toLowerCase())) return false;
+  return true;
+}
+
+export interface RawSearchResult {
+  title: string;
+  url: string;
+  content: string;
+  publishedDate?: string;
+  source?: string;
+}
+
+// Sort by threat score first, then by date
+export function sortByThreatScore(events: ThreatEvent[]): ThreatEvent[] {
+  return events.sort((a, b) => {
+    const scoreA = getThreatScore(a);
+    const scoreB = getThreatScore(b);
+    if (scoreA !== scoreB) {
+      return scoreB - scoreA;
+    }
+    const dateA = new Date(a.timestamp).getTime();
+    const dateB = new Date(b.timestamp).getTime();
+    return dateB - dateA;
+  });
+}
+
+export interface ProcessedResults {
+  events: ThreatEvent[];
+  // How the run's articles were classified, AI versus keyword fallback
+  classification: ClassificationMetrics;
+}
+
+/**
+ * Turn raw search results into stored, clustered threat events
+ * Filters junk, classifies and geocodes each result, then persists the incidents
+ */
+export async function processSearchResults(
+  results: RawSearchResult[]
+): Promise<ProcessedResults> {
+  const registry = await loadSourceRegistry();
+
+  // Pre-filter results before processing
+  const filteredResults = results.filter((result) => {
+    // Skip denied domains
+    if (registry.isDenied(result.url)) {
+      return false;
+    }
+    // Skip generic informational pages
+    const title = result.title;
+    if (GENERIC_TITLE_PATTERNS.some((pattern) => pattern.test(title))) {
+      return false;
+    }
+    return true;
+  });
+
+  // Deduplicate by URL before processing (faster than after)
+  const seenUrls = new Set<string>();
+  const uniqueResults = filteredResults.filter((result) => {
+    const normalizedUrl = normalizeUrl(result.url);
+    if (seenUrls.has(normalizedUrl)) return false;
+    seenUrls.add(normalizedUrl);
+    return true;
+  });
+
+  const articles = uniqueResults.map((result) => {
+    const originalTitle = cleanContent(result.title);
+    const originalContent = cleanContent(result.content);
+    return {
+      result,
+      originalTitle,
+      originalContent,
+      detected: detectLanguage(`${originalTitle} ${originalContent}`),
+    };
+  });
+
+  // Use AI classification (falls back to keywords if no LLM is configured or a call fails).
+  // LLM calls are queued behind a shared concurrency limit rather than all fired at once.
+  // Articles in other languages come back with the English translation they were classified from
+  const classification = await classifyEvents(
+    articles.map(({ result, originalTitle, originalContent, detected }) => ({
+      title: originalTitle,
+      content: originalContent,
+      url: result.url,
+      language: detected,
+    }))
+  );
+
+  const eventsWithLocations = articles.map(
+    ({ result, originalTitle, originalContent, detected }, i) => {
+      const classified = classification.results[i];
+      const { translation } = classified;
+      const title = translation?.title || originalTitle;
+      const content = translation?.content || originalContent;
+      const fullText = `${title} ${content}`;
+
+      // Skip events without valid locations
+      if (!classified.location || !isValidLocation(classified.location)) {
+        return null;
+      }
+
+      const timestamp = result.publishedDate || new Date().toISOString();
+
+      const event: ThreatEvent = {
+        id: generateEventId({ sourceUrl: result.url, title: originalTitle, timestamp }),
+        title,
+        summary: content.slice(0, 500),
+        category: classified.category,
+        ...(classified.secondaryCategories.length > 0 && {
+          secondaryCategories: classified.secondaryCategories,
+        }),
+        threatLevel: classified.threatLevel,
+        location: classified.location,
+        locations: classified.locations,
+        timestamp,
+        source: result.source || "web",
+        sourceUrl: result.url,
+        entities: extractEntities(fullText),
+        keywords: extractKeywords(fullText),
+        rawContent: content,
+        impact: classified.impact,
+        language: detected.language,
+        ...(translation && {
+          originalText: {
+            title: originalTitle,
+            summary: originalContent.slice(0, 500),
+          },
+        }),
+      };
+
+      return event;
+    }
+  );
+
+  const validEvents = eventsWithLocations.filter(
+    (event): event is ThreatEvent => event !== null
+  );
+
+  // Further deduplicate by title similarity
+  const uniqueEvents = validEvents.filter(
+    (event, index, self) =>
+      index === self.findIndex((e) => e.title === event.title)
+  );
+
+  // Merge reports of the same happening from different outlets into one incident,
+  // fold follow-up reports into incidents we already know about,
+  // then rate each incident by its most credible source and score it.
+  // Analyst corrections outlast later reports, so they are applied again on every update
+  const incidents = await Promise.all(
+    (await reconcileWithStored(clusterEvents(uniqueEvents))).map(async (event) =>
+      scoreWithOverride(
+        assessSourceReliability(event, registry),
+        await getClassificationOverride(event.id)
+      )
+    )
+  );
+
+  // Persist so history survives restarts
+  const storedEvents = await saveEvents(incidents);
+
+  return { events: sortByThreatScore(storedEvents), classification: classification.metrics };
+}
@@ -0,0 +1,249 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { EventCategory, EventRevision, ThreatEvent, ThreatLevel } from "@/types";
+import { generateEventId, getEventCategories } from "./utils";
+import { withRecency } from "./threat-score";
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "data");
+const EVENTS_FILE = path.join(DATA_DIR, "events.json");
+
+// Events older than this are pruned on write so the file doesn't grow forever
+const RETENTION_DAYS = Number(process.env.EVENT_RETENTION_DAYS) || 90;
+
+const DEFAULT_QUERY_LIMIT = 200;
+const MAX_QUERY_LIMIT = 1000;
+
+export interface EventQuery {
+  from?: string;
+  to?: string;
+  categories?: EventCategory[];
+  threatLevels?: ThreatLevel[];
+  country?: string;
+  // Only events whose best source is at this credibility rank or better (1 = wire)
+  maxSourceRank?: number;
+  // Skip events only located at country level
+  excludeCountryLevel?: boolean;
+  // Page back from this event: only events after it in newest-first order
+  before?: { timestamp: string; id: string };
+  limit?: number;
+  offset?: number;
+}
+
+export interface EventQueryResult {
+  events: ThreatEvent[];
+  total: number;
+  hasMore: boolean;
+}
+
+interface EventStoreState {
+  eventsCache: Map<string, ThreatEvent> | null;
+  loadPromise: Promise<Map<string, ThreatEvent>> | null;
+  writeChain: Promise<void>;
+}
+
+// Kept on globalThis so route handlers and the ingestion worker share one copy,
+// even when Next.js bundles this module more than once
+const globalForStore = globalThis as unknown as { eventStore?: EventStoreState };
+const state: EventStoreState = (globalForStore.eventStore ??= {
+  eventsCache: null,
+  loadPromise: null,
+  writeChain: Promise.resolve(),
+});
+
+// Random IDs from before they were derived from content (evt_<timestamp>_<random>)
+const LEGACY_ID_PATTERN = /^evt_\d+_[a-z0-9]+$/;
+
+async function readEventsFile(): Promise<Map<string, ThreatEvent>> {
+  try {
+    const raw = await fs.readFile(EVENTS_FILE, "utf-8");
+    const stored: ThreatEvent[] = JSON.parse(raw);
+    // Events saved with the old random IDs get a stable one on load. Other IDs are kept
+    // as-is: an incident keeps its first report's ID after a follow-up takes over the headline
+    return new Map(
+      stored.map((event) => {
+        const id = LEGACY_ID_PATTERN.test(event.id) ? generateEventId(event) : event.id;
+        return [id, { ...event, id }];
+      })
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error loading event store:", error);
+    }
+    return new Map();
+  }
+}
+
+async function loadEvents(): Promise<Map<string, ThreatEvent>> {
+  if (state.eventsCache) return state.eventsCache;
+  if (!state.loadPromise) {
+    state.loadPromise = readEventsFile().then((events) => {
+      state.eventsCache = events;
+      return events;
+    });
+  }
+  return state.loadPromise;
+}
+
+function pruneExpired(events: Map<string, ThreatEvent>): void {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const [key, event] of events) {
+    if (new Date(event.timestamp).getTime() < cutoff) {
+      events.delete(key);
+    }
+  }
+}
+
+function hasChanged(existing: ThreatEvent, incoming: ThreatEvent): boolean {
+  return (
+    existing.title !== incoming.title ||
+    existing.summary !== incoming.summary ||
+    existing.category !== incoming.category ||
+    JSON.stringify(existing.secondaryCategories) !== JSON.stringify(incoming.secondaryCategories) ||
+    existing.threatLevel !== incoming.threatLevel ||
+    existing.location.latitude !== incoming.location.latitude ||
+    existing.location.longitude !== incoming.location.longitude ||
+    (existing.sources?.length ?? 0) !== (incoming.sources?.length ?? 0) ||
+    JSON.stringify(existing.impact) !== JSON.stringify(incoming.impact)
+  );
+}
+
+// Writes are chained so concurrent requests never interleave on disk,
+// and go through a temp file so a crash can't leave a half-written store
+function persistEvents(events: Map<string, ThreatEvent>): Promise<void> {
+  state.writeChain = state.writeChain
+    .then(async () => {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      const tmpFile = `${EVENTS_FILE}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(Array.from(events.values())));
+      await fs.rename(tmpFile, EVENTS_FILE);
+    })
+    .catch((error) => {
+      console.error("Error persisting event store:", error);
+    });
+  return state.writeChain;
+}
+
+// Keep at most this many earlier versions per event
+const MAX_REVISIONS = 20;
+
+// Snapshot the stored version when a later report changes its level or summary
+function getRevisions(existing: ThreatEvent, incoming: ThreatEvent): EventRevision[] | undefined {
+  if (
+    existing.threatLevel === incoming.threatLevel &&
+    existing.summary === incoming.summary
+  ) {
+    return existing.revisions;
+  }
+
+  const revision: EventRevision = {
+    recordedAt: existing.updatedAt || existing.firstSeenAt || existing.timestamp,
+    threatLevel: existing.threatLevel,
+    title: existing.title,
+    summary: existing.summary,
+  };
+  return [...(existing.revisions || []), revision].slice(-MAX_REVISIONS);
+}
+
+/**
+ * Insert or update events in the persistent store
+ * Returns the stored copies - an event seen before keeps its `firstSeenAt` and revision history,
+ * and `updatedAt` only moves when its content actually changed
+ * Like every read from the store, they are scored with recency as of now
+ */
+export async function saveEvents(events: ThreatEvent[]): Promise<ThreatEvent[]> {
+  const stored = await loadEvents();
+  const now = new Date().toISOString();
+
+  const saved = events.map((event) => {
+    const existing = stored.get(event.id);
+
+    const merged: ThreatEvent = existing
+      ? {
+          ...event,
+          firstSeenAt: existing.firstSeenAt || now,
+          updatedAt: hasChanged(existing, event)
+            ? now
+            : existing.updatedAt || now,
+          revisions: getRevisions(existing, event),
+        }
+      : { ...event, firstSeenAt: now, updatedAt: now };
+
+    stored.set(event.id, merged);
+    return merged;
+  });
+
+  pruneExpired(stored);
+  await persistEvents(stored);
+
+  const readAt = Date.now();
+  return saved.map((event) => withRecency(event, readAt));
+}
+
+export async function getEvent(id: string): Promise<ThreatEvent | null> {
+  const event = (await loadEvents()).get(id);
+  return event ? withRecency(event) : null;
+}
+
+/**
+ * Query stored events, newest first
+ * Threat levels are matched as of now, with recency added to the stored scores
+ */
+export async function queryEvents(query: EventQuery = {}): Promise<EventQueryResult> {
+  const stored = await loadEvents();
+  const readAt = Date.now();
+
+  const from = query.from ? new Date(query.from).getTime() : null;
+  const to = query.to ? new Date(query.to).getTime() : null;
+  const country = query.country?.toLowerCase();
+  const limit = Math.min(query.limit || DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+  const offset = query.offset || 0;
+
+  const before = query.before
+    ? { time: new Date(query.before.timestamp).getTime(), id: query.before.id }
+    : null;
+
+  const scored = Array.from(stored.values(), (event) => withRecency(event, readAt));
+  const matching = scored.filter((event) => {
+    const time = new Date(event.timestamp).getTime();
+    if (from !== null && time < from) return false;
+    if (to !== null && time > to) return false;
+    if (before && (time > before.time || (time === before.time && event.id >= before.id))) {
+      return false;
+    }
+    if (
+      query.categories?.length &&
+      !getEventCategories(event).some((category) => query.categories?.includes(category))
+    ) {
+      return false;
+    }
+    if (query.threatLevels?.length && !query.threatLevels.includes(event.threatLevel)) {
+      return false;
+    }
+    if (country && event.location.country?.toLowerCase() !== country) {
+      return false;
+    }
+    if (
+      query.maxSourceRank &&
+      (event.sourceReliability?.rank ?? 5) > query.maxSourceRank
+    ) {
+      return false;
+    }
+    if (query.excludeCountryLevel && event.location.precision === "country") {
+      return false;
+    }
+    return true;
+  });
+
+  // Newest first; events with the same timestamp go by ID so a cursor can page between them
+  matching.sort(
+    (a, b) =>
+      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() ||
+      (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+  );
+
+  return {
+    events: matching.slice(offset, offset + limit),
+    total: matching.length,
+    hasMore: offset + limit < matching.length,
+  };
+}
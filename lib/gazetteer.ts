@@ -0,0 +1,291 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { GeoLocation } from "@/types";
+
+const GAZETTEER_FILE =
+  process.env.GAZETTEER_FILE || path.join(process.cwd(), "config", "gazetteer.json");
+
+// A match on the primary name is more trustworthy than one on an alternate name
+const NAME_CONFIDENCE = 0.9;
+const ALIAS_CONFIDENCE = 0.85;
+// Same name in several countries and nothing to tell them apart
+const AMBIGUOUS_CONFIDENCE = 0.6;
+// Alternate names of smaller cities are mostly other languages' spellings, which collide with
+// names of people and groups in English text; only big cities' are in common use ("Kiev", "Bombay")
+const MIN_FREE_TEXT_ALIAS_POPULATION = 1000000;
+
+const GazetteerCountrySchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  aliases: z.array(z.string()).default([]),
+});
+
+const GazetteerPlaceSchema = z.object({
+  name: z.string(),
+  kind: z.enum(["city", "region"]),
+  // ISO 3166-1 alpha-2 code
+  country: z.string(),
+  admin1: z.string().optional(),
+  lat: z.number(),
+  lng: z.number(),
+  population: z.number().optional(),
+  aliases: z.array(z.string()).default([]),
+});
+
+const GazetteerSchema = z.object({
+  source: z.string().optional(),
+  // Folded one-word names that are also ordinary English words ("police", "nice")
+  commonWords: z.array(z.string()).default([]),
+  countries: z.array(GazetteerCountrySchema),
+  places: z.array(GazetteerPlaceSchema),
+});
+
+type GazetteerCountry = z.infer<typeof GazetteerCountrySchema>;
+type GazetteerPlace = z.infer<typeof GazetteerPlaceSchema>;
+
+interface NameMatch<T> {
+  entry: T;
+  isAlias: boolean;
+}
+
+interface GazetteerIndex {
+  places: Map<string, NameMatch<GazetteerPlace>[]>;
+  countries: Map<string, NameMatch<GazetteerCountry>>;
+  countriesByCode: Map<string, GazetteerCountry>;
+  commonWords: Set<string>;
+  // Longest name in words, which bounds the text scan
+  maxWords: number;
+}
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "g", ґ: "g", д: "d", е: "e", ё: "e", є: "ye",
+  ж: "zh", з: "z", и: "i", і: "i", ї: "yi", й: "y", к: "k", л: "l", м: "m",
+  н: "n", о: "o", п: "p", р: "r", с: "s", т: "t", у: "u", ф: "f", х: "kh",
+  ц: "ts", ч: "ch", ш: "sh", щ: "shch", ъ: "", ы: "y", ь: "", э: "e",
+  ю: "yu", я: "ya",
+};
+
+/**
+ * Fold a place name to its lookup key
+ * Case, accents, punctuation and Cyrillic script are ignored, so
+ * "São Paulo", "Sao Paulo" and "Мариуполь" / "Mariupol" share keys
+ */
+export function foldPlaceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[Ѐ-ӿ]/g, (char) => CYRILLIC_TO_LATIN[char] ?? char)
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .replace(/\bsaint\b/g, "st")
+    .trim();
+}
+
+function addName<T>(index: Map<string, NameMatch<T>[]>, name: string, match: NameMatch<T>) {
+  const key = foldPlaceName(name);
+  if (!key) return;
+  const matches = index.get(key) || [];
+  if (!matches.some((existing) => existing.entry === match.entry)) {
+    matches.push(match);
+    index.set(key, matches);
+  }
+}
+
+function buildIndex(): GazetteerIndex {
+  const index: GazetteerIndex = {
+    places: new Map(),
+    countries: new Map(),
+    countriesByCode: new Map(),
+    commonWords: new Set(),
+    maxWords: 1,
+  };
+
+  let gazetteer: z.infer<typeof GazetteerSchema>;
+  try {
+    gazetteer = GazetteerSchema.parse(JSON.parse(readFileSync(GAZETTEER_FILE, "utf-8")));
+  } catch (error) {
+    console.error("Error loading gazetteer, offline geocoding is disabled:", error);
+    return index;
+  }
+
+  const countWords = (name: string) => foldPlaceName(name).split(" ").length;
+  index.commonWords = new Set(gazetteer.commonWords);
+
+  for (const country of gazetteer.countries) {
+    index.countriesByCode.set(country.code.toUpperCase(), country);
+    for (const [name, isAlias] of [
+      [country.name, false] as const,
+      ...country.aliases.map((alias) => [alias, true] as const),
+    ]) {
+      const key = foldPlaceName(name);
+      if (key && !index.countries.has(key)) {
+        index.countries.set(key, { entry: country, isAlias });
+        index.maxWords = Math.max(index.maxWords, countWords(name));
+      }
+    }
+  }
+
+  for (const place of gazetteer.places) {
+    addName(index.places, place.name, { entry: place, isAlias: false });
+    for (const alias of place.aliases) {
+      addName(index.places, alias, { entry: place, isAlias: true });
+    }
+    index.maxWords = Math.max(index.maxWords, countWords(place.name));
+  }
+
+  return index;
+}
+
+// Loaded once per process - the gazetteer is large and only changes on a rebuild
+let gazetteerIndex: GazetteerIndex | null = null;
+
+function getIndex(): GazetteerIndex {
+  gazetteerIndex ??= buildIndex();
+  return gazetteerIndex;
+}
+
+// A trailing qualifier can name the country outright, by ISO code, or by one of its regions ("Paris, Texas")
+function findCountry(index: GazetteerIndex, hint: string): GazetteerCountry | null {
+  const trimmed = hint.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed)) {
+    return index.countriesByCode.get(trimmed.toUpperCase()) || null;
+  }
+  const key = foldPlaceName(trimmed);
+  const country = index.countries.get(key)?.entry;
+  if (country) return country;
+  const region = index.places.get(key)?.find((match) => match.entry.kind === "region");
+  return region ? index.countriesByCode.get(region.entry.country.toUpperCase()) || null : null;
+}
+
+/**
+ * ISO 3166-1 alpha-2 code for a country name, alternate name or code
+ * ("DRC", "Democratic Republic of the Congo" and "CD" all give "CD")
+ */
+export function resolveCountryCode(name: string): string | null {
+  const index = getIndex();
+  const trimmed = name.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed)) {
+    return index.countriesByCode.get(trimmed.toUpperCase())?.code.toUpperCase() || null;
+  }
+  return index.countries.get(foldPlaceName(trimmed))?.entry.code.toUpperCase() || null;
+}
+
+function countryResult(match: NameMatch<GazetteerCountry>): GeoLocation {
+  return {
+    latitude: match.entry.lat,
+    longitude: match.entry.lng,
+    placeName: match.entry.name,
+    country: match.entry.name,
+    precision: "country",
+    confidence: match.isAlias ? ALIAS_CONFIDENCE : NAME_CONFIDENCE,
+    resolver: "gazetteer",
+  };
+}
+
+/**
+ * Resolve a place name against the offline gazetteer
+ * Accepts "Place", "Place, Country" or "Place, Region, Country"; the trailing parts
+ * pick between places that share a name. Returns null when there is no match
+ */
+export function lookupPlace(query: string): GeoLocation | null {
+  const index = getIndex();
+  const parts = query.split(",").map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const [name, ...qualifiers] = parts;
+  const nameKey = foldPlaceName(name);
+  const countryHint =
+    qualifiers.length > 0 ? findCountry(index, qualifiers[qualifiers.length - 1]) : null;
+  // Qualifiers can also name the region, which separates same-named places within one country
+  const adminHints = qualifiers.map(foldPlaceName);
+
+  // A bare country name means the country, not a small town that shares it
+  const country = index.countries.get(nameKey);
+  if (country && (!countryHint || country.entry === countryHint)) {
+    return countryResult(country);
+  }
+
+  let candidates = index.places.get(nameKey) || [];
+  if (countryHint) {
+    candidates = candidates.filter((match) => match.entry.country === countryHint.code);
+  }
+  if (candidates.length === 0) return null;
+
+  const matchesAdmin = (place: GazetteerPlace) =>
+    !!place.admin1 && adminHints.includes(foldPlaceName(place.admin1));
+  const ranked = [...candidates].sort(
+    (a, b) =>
+      Number(matchesAdmin(b.entry)) - Number(matchesAdmin(a.entry)) ||
+      (b.entry.population ?? 0) - (a.entry.population ?? 0)
+  );
+  const { entry: place, isAlias } = ranked[0];
+
+  const countryCodes = new Set(candidates.map((match) => match.entry.country));
+  const ambiguous = countryCodes.size > 1 && !matchesAdmin(place);
+  const placeCountry = index.countriesByCode.get(place.country.toUpperCase());
+
+  return {
+    latitude: place.lat,
+    longitude: place.lng,
+    placeName: place.name,
+    country: placeCountry?.name || place.country,
+    region: place.admin1,
+    precision: place.kind,
+    confidence: ambiguous ? AMBIGUOUS_CONFIDENCE : isAlias ? ALIAS_CONFIDENCE : NAME_CONFIDENCE,
+    resolver: "gazetteer",
+  };
+}
+
+/**
+ * Whether a one-word match in free text names the place
+ * Capitals say nothing at the start of a sentence, and an ordinary word ("Police", "South")
+ * is more often just that, so those never count; an alternate name also needs a big city
+ * and a capital mid-sentence
+ */
+function isFreeTextMatch(
+  index: GazetteerIndex,
+  match: NameMatch<GazetteerPlace>,
+  key: string,
+  words: number,
+  startsSentence: boolean
+): boolean {
+  if (words > 1) return true;
+  if (index.commonWords.has(key)) return false;
+  if (!match.isAlias || match.entry.kind === "region") return true;
+  return !startsSentence && (match.entry.population ?? 0) >= MIN_FREE_TEXT_ALIAS_POPULATION;
+}
+
+/**
+ * Find gazetteer place and country names in free text, in order of appearance
+ * Only capitalised runs of words are tried, longest first, so "New York" wins over "York"
+ */
+export function findPlaceNames(text: string): string[] {
+  const index = getIndex();
+  const matches = Array.from(text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’.-]*/gu));
+  const words = matches.map((match) => match[0]);
+  const found = new Set<string>();
+
+  for (let i = 0; i < words.length; i++) {
+    if (!/^\p{Lu}/u.test(words[i])) continue;
+    const startsSentence = /(^|[.!?:"“\n])\s*$/.test(text.slice(0, matches[i].index));
+
+    for (let length = Math.min(index.maxWords, words.length - i); length >= 1; length--) {
+      const key = foldPlaceName(words.slice(i, i + length).join(" "));
+      const place = index.places
+        .get(key)
+        ?.find((match) => isFreeTextMatch(index, match, key, length, startsSentence));
+      const country = index.countries.get(key);
+      const name = country?.entry.name || place?.entry.name;
+      if (name) {
+        found.add(name);
+        i += length - 1;
+        break;
+      }
+    }
+  }
+
+  return Array.from(found);
+}
@@ -0,0 +1,189 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { GeoLocation } from "@/types";
+import { DATA_DIR } from "./event-store";
+
+const CACHE_FILE = path.join(DATA_DIR, "geocode-cache.json");
+
+const CACHE_SIZE = Number(process.env.GEOCODE_CACHE_SIZE) || 5000;
+// Place coordinates don't move, but Mapbox data does improve
+const HIT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Names that found nothing are retried sooner in case the lookup failed on a bad day
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+// Batch disk writes instead of rewriting the file on every lookup
+const PERSIST_DELAY_MS = 5000;
+
+interface CacheEntry {
+  // null records a name the geocoder couldn't resolve
+  location: GeoLocation | null;
+  cachedAt: number;
+}
+
+export interface GeocodeCacheStats {
+  size: number;
+  capacity: number;
+  hits: number;
+  negativeHits: number;
+  misses: number;
+  hitRate: number;
+}
+
+interface GeocodeCacheState {
+  // Map iteration order doubles as recency order: oldest first
+  entries: Map<string, CacheEntry> | null;
+  loadPromise: Promise<Map<string, CacheEntry>> | null;
+  // Lookups in flight, so concurrent requests for one name share a single API call
+  pending: Map<string, Promise<GeoLocation | null>>;
+  persistTimer: NodeJS.Timeout | null;
+  writeChain: Promise<void>;
+  hits: number;
+  negativeHits: number;
+  misses: number;
+}
+
+// Shared through globalThis for the same reason as the event store
+const globalForCache = globalThis as unknown as { geocodeCache?: GeocodeCacheState };
+const state: GeocodeCacheState = (globalForCache.geocodeCache ??= {
+  entries: null,
+  loadPromise: null,
+  pending: new Map(),
+  persistTimer: null,
+  writeChain: Promise.resolve(),
+  hits: 0,
+  negativeHits: 0,
+  misses: 0,
+});
+
+// "  Kharkiv,  Ukraine. " and "kharkiv, ukraine" share an entry
+export function normalizePlaceName(placeName: string): string {
+  return placeName
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/\s*,\s*/g, ", ")
+    .replace(/[.;:]+$/, "")
+    .trim();
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  const ttl = entry.location ? HIT_TTL_MS : MISS_TTL_MS;
+  return Date.now() - entry.cachedAt > ttl;
+}
+
+async function readCacheFile(): Promise<Map<string, CacheEntry>> {
+  try {
+    const raw = await fs.readFile(CACHE_FILE, "utf-8");
+    const stored: [string, CacheEntry][] = JSON.parse(raw);
+    return new Map(stored.filter(([, entry]) => !isExpired(entry)).slice(-CACHE_SIZE));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error loading geocode cache:", error);
+    }
+    return new Map();
+  }
+}
+
+async function loadEntries(): Promise<Map<string, CacheEntry>> {
+  if (state.entries) return state.entries;
+  if (!state.loadPromise) {
+    state.loadPromise = readCacheFile().then((entries) => {
+      state.entries = entries;
+      return entries;
+    });
+  }
+  return state.loadPromise;
+}
+
+function schedulePersist(entries: Map<string, CacheEntry>): void {
+  if (state.persistTimer) return;
+  state.persistTimer = setTimeout(() => {
+    state.persistTimer = null;
+    state.writeChain = state.writeChain
+      .then(async () => {
+        await fs.mkdir(DATA_DIR, { recursive: true });
+        const tmpFile = `${CACHE_FILE}.tmp`;
+        await fs.writeFile(tmpFile, JSON.stringify(Array.from(entries.entries())));
+        await fs.rename(tmpFile, CACHE_FILE);
+      })
+      .catch((error) => {
+        console.error("Error persisting geocode cache:", error);
+      });
+  }, PERSIST_DELAY_MS);
+  // Don't hold the process open just to flush the cache
+  state.persistTimer.unref?.();
+}
+
+function remember(
+  entries: Map<string, CacheEntry>,
+  key: string,
+  location: GeoLocation | null
+): void {
+  entries.delete(key);
+  entries.set(key, { location, cachedAt: Date.now() });
+  // Evict the least recently used entries
+  while (entries.size > CACHE_SIZE) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+  schedulePersist(entries);
+}
+
+/**
+ * Look a place name up in the cache, calling the resolver only on a miss
+ * The resolver returns null for a name it couldn't find (cached as a miss),
+ * and throws on a transient failure (not cached, so the next lookup retries)
+ */
+export async function cachedGeocode(
+  placeName: string,
+  resolve: (placeName: string) => Promise<GeoLocation | null>
+): Promise<GeoLocation | null> {
+  const key = normalizePlaceName(placeName);
+  const entries = await loadEntries();
+
+  const entry = entries.get(key);
+  if (entry && !isExpired(entry)) {
+    // Move to the most recently used end
+    entries.delete(key);
+    entries.set(key, entry);
+    if (entry.location) {
+      state.hits++;
+    } else {
+      state.negativeHits++;
+    }
+    return entry.location;
+  }
+
+  const inFlight = state.pending.get(key);
+  if (inFlight) {
+    state.hits++;
+    return inFlight;
+  }
+
+  state.misses++;
+  const lookup = resolve(placeName)
+    .then((location) => {
+      remember(entries, key, location);
+      return location;
+    })
+    .finally(() => {
+      state.pending.delete(key);
+    });
+  state.pending.set(key, lookup);
+  return lookup;
+}
+
+/**
+ * Hit/miss counts since the server started, plus the current cache size
+ */
+export async function getGeocodeCacheStats(): Promise<GeocodeCacheStats> {
+  const entries = await loadEntries();
+  const lookups = state.hits + state.negativeHits + state.misses;
+  return {
+    size: entries.size,
+    capacity: CACHE_SIZE,
+    hits: state.hits,
+    negativeHits: state.negativeHits,
+    misses: state.misses,
+    hitRate: lookups > 0 ? (state.hits + state.negativeHits) / lookups : 0,
+  };
+}
@@ -0,0 +1,64 @@
+import {
+  IMPACT_COUNT_FIELDS,
+  type EventImpact,
+  type ImpactCountField,
+  type ThreatEvent,
+} from "@/types";
+
+export type ImpactTotals = Record<ImpactCountField, number>;
+
+export function hasImpact(impact: EventImpact | undefined): impact is EventImpact {
+  return (
+    !!impact &&
+    (IMPACT_COUNT_FIELDS.some((field) => impact[field] !== undefined) ||
+      !!impact.infrastructure?.length)
+  );
+}
+
+/**
+ * Combine figures from several reports of one incident
+ * Reports of the same toll overlap, so the highest figure is kept rather than the sum
+ */
+export function mergeImpact(
+  impacts: (EventImpact | undefined)[]
+): EventImpact | undefined {
+  const merged: EventImpact = {};
+
+  for (const impact of impacts) {
+    if (!impact) continue;
+    for (const field of IMPACT_COUNT_FIELDS) {
+      const value = impact[field];
+      if (value !== undefined) {
+        merged[field] = Math.max(merged[field] ?? 0, value);
+      }
+    }
+    if (impact.infrastructure?.length) {
+      merged.infrastructure = [
+        ...new Set([...(merged.infrastructure || []), ...impact.infrastructure]),
+      ];
+    }
+  }
+
+  return hasImpact(merged) ? merged : undefined;
+}
+
+/**
+ * Add up the figures across separate events (e.g. all events in a country)
+ */
+export function sumImpact(events: ThreatEvent[]): ImpactTotals {
+  const totals: ImpactTotals = { killed: 0, injured: 0, displaced: 0, arrested: 0 };
+  for (const event of events) {
+    for (const field of IMPACT_COUNT_FIELDS) {
+      totals[field] += event.impact?.[field] ?? 0;
+    }
+  }
+  return totals;
+}
+
+// Compact count for badges: 1234 -> "1.2K", 2500000 -> "2.5M"
+export function formatCount(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, "")}M`;
+  if (value >= 10_000) return `${Math.round(value / 1000)}K`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1).replace(/\.0$/, "")}K`;
+  return String(value);
+}
@@ -0,0 +1,207 @@
+import type { EventCategory, IncidentSource, ThreatEvent } from "@/types";
+import { haversineDistanceKm } from "./utils";
+import { mergeImpact } from "./impact";
+
+// Reports further apart than this are treated as separate incidents
+const MAX_DISTANCE_KM = 150;
+const MAX_TIME_DIFF_MS = 48 * 60 * 60 * 1000;
+const MIN_TITLE_SIMILARITY = 0.25;
+
+// Threat level priority (lower = more severe)
+const THREAT_LEVEL_PRIORITY: Record<string, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  info: 4,
+};
+
+const STOP_WORDS = new Set([
+  "about",
+  "after",
+  "against",
+  "amid",
+  "says",
+  "said",
+  "from",
+  "have",
+  "into",
+  "over",
+  "than",
+  "that",
+  "their",
+  "there",
+  "this",
+  "with",
+  "will",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "news",
+  "latest",
+  "live",
+  "update",
+  "updates",
+]);
+
+function tokenizeTitle(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 3 && !STOP_WORDS.has(word))
+  );
+}
+
+function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const word of a) {
+    if (b.has(word)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function sharesEntity(a: ThreatEvent, b: ThreatEvent): boolean {
+  if (!a.entities?.length || !b.entities?.length) return false;
+  const entities = new Set(a.entities.map((e) => e.toLowerCase()));
+  return b.entities.some((e) => entities.has(e.toLowerCase()));
+}
+
+function toIncidentSource(event: ThreatEvent): IncidentSource {
+  return {
+    title: event.title,
+    source: event.source,
+    sourceUrl: event.sourceUrl,
+    timestamp: event.timestamp,
+  };
+}
+
+// An incident's reports, or the event itself when it stands alone
+function getIncidentSources(event: ThreatEvent): IncidentSource[] {
+  return event.sources?.length ? event.sources : [toIncidentSource(event)];
+}
+
+/**
+ * Combine the reports of several events into one source list, dropping repeats
+ */
+export function mergeIncidentSources(events: ThreatEvent[]): IncidentSource[] {
+  return events
+    .flatMap(getIncidentSources)
+    .filter(
+      (source, index, self) =>
+        index ===
+        self.findIndex(
+          (s) => s.sourceUrl === source.sourceUrl && s.title === source.title
+        )
+    );
+}
+
+interface IncidentCandidate {
+  event: ThreatEvent;
+  members: ThreatEvent[];
+  memberTokens: Set<string>[];
+}
+
+/**
+ * Secondary categories from every report of an incident, minus its primary category
+ */
+export function mergeSecondaryCategories(
+  primary: EventCategory,
+  events: ThreatEvent[]
+): EventCategory[] | undefined {
+  const categories = new Set(events.flatMap((event) => event.secondaryCategories || []));
+  categories.delete(primary);
+  return categories.size > 0 ? [...categories] : undefined;
+}
+
+/**
+ * Check whether two reports describe the same happening:
+ * same category, nearby, close in time, and a similar headline or shared entity
+ */
+function isSameIncident(
+  incident: IncidentCandidate,
+  event: ThreatEvent,
+  tokens: Set<string>
+): boolean {
+  const representative = incident.event;
+  if (representative.category !== event.category) return false;
+
+  const distance = haversineDistanceKm(
+    representative.location.latitude,
+    representative.location.longitude,
+    event.location.latitude,
+    event.location.longitude
+  );
+  if (distance > MAX_DISTANCE_KM) return false;
+
+  const timeDiff = Math.abs(
+    new Date(representative.timestamp).getTime() -
+      new Date(event.timestamp).getTime()
+  );
+  if (timeDiff > MAX_TIME_DIFF_MS) return false;
+
+  return (
+    incident.memberTokens.some(
+      (memberTokens) => jaccardSimilarity(memberTokens, tokens) >= MIN_TITLE_SIMILARITY
+    ) || sharesEntity(representative, event)
+  );
+}
+
+/**
+ * Group reports of the same happening into a single incident
+ * The most severe (then most recent) report represents the incident and
+ * every contributing report is listed in its `sources`
+ */
+export function clusterEvents(events: ThreatEvent[]): ThreatEvent[] {
+  const ordered = [...events].sort((a, b) => {
+    const priorityA = THREAT_LEVEL_PRIORITY[a.threatLevel] ?? 5;
+    const priorityB = THREAT_LEVEL_PRIORITY[b.threatLevel] ?? 5;
+    if (priorityA !== priorityB) {
+      return priorityA - priorityB;
+    }
+    return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+  });
+
+  const incidents: IncidentCandidate[] = [];
+
+  for (const event of ordered) {
+    const tokens = tokenizeTitle(event.title);
+    const match = incidents.find((incident) =>
+      isSameIncident(incident, event, tokens)
+    );
+
+    if (match) {
+      match.members.push(event);
+      match.memberTokens.push(tokens);
+    } else {
+      incidents.push({ event, members: [event], memberTokens: [tokens] });
+    }
+  }
+
+  return incidents.map(({ event, members }) => ({
+    ...event,
+    secondaryCategories: mergeSecondaryCategories(event.category, members),
+    entities: [...new Set(members.flatMap((m) => m.entities || []))],
+    sources: mergeIncidentSources(members),
+    impact: mergeImpact(members.map((m) => m.impact)),
+  }));
+}
+
+/**
+ * Check whether a new report belongs to an already known incident
+ * Headlines are compared against every report the incident has collected
+ */
+export function matchesIncident(incident: ThreatEvent, event: ThreatEvent): boolean {
+  const candidate: IncidentCandidate = {
+    event: incident,
+    members: [incident],
+    memberTokens: getIncidentSources(incident).map((source) =>
+      tokenizeTitle(source.title)
+    ),
+  };
+  return isSameIncident(candidate, event, tokenizeTitle(event.title));
+}
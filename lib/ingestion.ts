@@ -0,0 +1,235 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { isSelfHostedMode } from "./app-mode";
+import { DATA_DIR, queryEvents } from "./event-store";
+import { fetchFromSources, type SourceTargetResult } from "./source-adapters";
+import { processSearchResults, sortByThreatScore } from "./event-pipeline";
+import { getLLMQueueStats, type LLMQueueStats } from "./llm-queue";
+import type { ClassificationMetrics } from "./ai-classifier";
+import {
+  getClassificationCacheStats,
+  type ClassificationCacheStats,
+} from "./classification-cache";
+import { resolveQueryPacks } from "./query-packs";
+import type { ThreatEvent } from "@/types";
+
+const RUNS_FILE = path.join(DATA_DIR, "ingestion-runs.json");
+const MAX_RUN_HISTORY = 50;
+
+// Left at 0 (the default), ingestion is off and every client searches on demand
+const INGESTION_INTERVAL_MINUTES =
+  Number(process.env.INGESTION_INTERVAL_MINUTES) || 0;
+
+// How many stored events a client gets from the shared cache
+const CACHED_EVENT_LIMIT = 500;
+
+// A run counts as stalled once this many intervals pass without a success
+const STALL_THRESHOLD_INTERVALS = 3;
+
+export type IngestionRunStatus = "running" | "success" | "partial" | "failed";
+
+export interface QueryRunResult {
+  source: string;
+  query: string;
+  status: "success" | "failed";
+  resultCount: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface IngestionRun {
+  id: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  status: IngestionRunStatus;
+  eventCount: number;
+  queries: QueryRunResult[];
+  classification?: ClassificationMetrics;
+  error?: string;
+}
+
+export interface IngestionStatus {
+  enabled: boolean;
+  intervalMinutes: number;
+  running: boolean;
+  stalled: boolean;
+  lastRun: IngestionRun | null;
+  lastSuccessAt: string | null;
+  // LLM calls in flight and queued, with retry counts since the server started
+  llmQueue: LLMQueueStats;
+  classificationCache: ClassificationCacheStats;
+  runs: IngestionRun[];
+}
+
+interface IngestionState {
+  runs: IngestionRun[] | null;
+  currentRun: Promise<IngestionRun> | null;
+  timer: NodeJS.Timeout | null;
+}
+
+// Shared through globalThis for the same reason as the event store
+const globalForIngestion = globalThis as unknown as { ingestion?: IngestionState };
+const state: IngestionState = (globalForIngestion.ingestion ??= {
+  runs: null,
+  currentRun: null,
+  timer: null,
+});
+
+/**
+ * Ingestion needs the server's own Valyu key, so it only runs in self-hosted mode
+ */
+export function isIngestionEnabled(): boolean {
+  return INGESTION_INTERVAL_MINUTES > 0 && isSelfHostedMode();
+}
+
+async function loadRuns(): Promise<IngestionRun[]> {
+  if (state.runs) return state.runs;
+  try {
+    const raw = await fs.readFile(RUNS_FILE, "utf-8");
+    state.runs = JSON.parse(raw) as IngestionRun[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error loading ingestion runs:", error);
+    }
+    state.runs = [];
+  }
+  return state.runs;
+}
+
+async function persistRuns(runs: IngestionRun[]): Promise<void> {
+  try {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.writeFile(RUNS_FILE, JSON.stringify(runs.slice(0, MAX_RUN_HISTORY)));
+  } catch (error) {
+    console.error("Error persisting ingestion runs:", error);
+  }
+}
+
+// A query (or feed) fails if it threw or the account is out of credits
+function toQueryRunResult(target: SourceTargetResult): QueryRunResult {
+  const error =
+    target.error ||
+    (target.result?.requiresCredits ? "Insufficient credits" : undefined);
+
+  return {
+    source: target.adapter,
+    query: target.target,
+    status: error ? "failed" : "success",
+    resultCount: target.result?.results.length ?? 0,
+    durationMs: target.durationMs,
+    error,
+  };
+}
+
+async function executeRun(): Promise<IngestionRun> {
+  const runs = await loadRuns();
+  const startedAt = Date.now();
+  const run: IngestionRun = {
+    id: `run_${startedAt}`,
+    startedAt: new Date(startedAt).toISOString(),
+    status: "running",
+    eventCount: 0,
+    queries: [],
+  };
+  runs.unshift(run);
+  runs.splice(MAX_RUN_HISTORY);
+
+  try {
+    const queries = await resolveQueryPacks();
+    const targets = await fetchFromSources(queries);
+    run.queries = targets.map(toQueryRunResult);
+    const failedCount = run.queries.filter((q) => q.status === "failed").length;
+
+    const { events, classification } = await processSearchResults(
+      targets.flatMap((target) => target.result?.results || [])
+    );
+    run.eventCount = events.length;
+    run.classification = classification;
+    if (failedCount === run.queries.length) {
+      run.status = "failed";
+    } else {
+      run.status = failedCount > 0 ? "partial" : "success";
+    }
+  } catch (error) {
+    console.error("Ingestion processing error:", error);
+    run.status = "failed";
+    run.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  run.finishedAt = new Date().toISOString();
+  run.durationMs = Date.now() - startedAt;
+  await persistRuns(runs);
+
+  return run;
+}
+
+/**
+ * Run the default query pack against every enabled source once, classify and store the results
+ * Overlapping calls share the run already in progress
+ */
+export function runIngestion(): Promise<IngestionRun> {
+  if (!state.currentRun) {
+    state.currentRun = executeRun().finally(() => {
+      state.currentRun = null;
+    });
+  }
+  return state.currentRun;
+}
+
+/**
+ * Start the background scheduler - safe to call more than once
+ */
+export function startIngestionScheduler(): void {
+  if (state.timer || !isIngestionEnabled()) return;
+
+  const run = () =>
+    runIngestion().catch((error) => {
+      console.error("Error running event ingestion:", error);
+    });
+  run();
+  state.timer = setInterval(run, INGESTION_INTERVAL_MINUTES * 60 * 1000);
+}
+
+export async function getIngestionStatus(): Promise<IngestionStatus> {
+  const runs = await loadRuns();
+  const lastSuccess = runs.find(
+    (run) => run.status === "success" || run.status === "partial"
+  );
+  const lastSuccessAt = lastSuccess?.finishedAt || null;
+  const stallWindowMs =
+    INGESTION_INTERVAL_MINUTES * STALL_THRESHOLD_INTERVALS * 60 * 1000;
+
+  return {
+    enabled: isIngestionEnabled(),
+    intervalMinutes: INGESTION_INTERVAL_MINUTES,
+    running: !!state.currentRun,
+    stalled:
+      isIngestionEnabled() &&
+      (!lastSuccessAt || Date.now() - new Date(lastSuccessAt).getTime() > stallWindowMs),
+    lastRun: runs[0] || null,
+    lastSuccessAt,
+    llmQueue: getLLMQueueStats(),
+    classificationCache: await getClassificationCacheStats(),
+    runs,
+  };
+}
+
+/**
+ * Serve clients from the shared store instead of searching per request
+ * On a cold start, waits for the first run so the first client isn't handed nothing
+ */
+export async function getIngestedEvents(): Promise<ThreatEvent[]> {
+  const runs = await loadRuns();
+  const hasSucceeded = runs.some(
+    (run) => run.status === "success" || run.status === "partial"
+  );
+  if (runs.length === 0) {
+    await runIngestion();
+  } else if (!hasSucceeded && state.currentRun) {
+    await state.currentRun;
+  }
+
+  const { events } = await queryEvents({ limit: CACHED_EVENT_LIMIT });
+  return sortByThreatScore(events);
+}
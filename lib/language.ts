@@ -0,0 +1,122 @@
+// Language code used when the text is too short or mixed to call
+export const UNKNOWN_LANGUAGE = "und";
+
+export interface DetectedLanguage {
+  // ISO 639-1 code, or UNKNOWN_LANGUAGE
+  language: string;
+  // False when only the script was recognised and the code is the language most written in it
+  certain: boolean;
+}
+
+// Scripts that identify a language (or a small family) on their own
+const SCRIPT_LANGUAGES: { pattern: RegExp; language: string }[] = [
+  { pattern: /[぀-ヿ]/g, language: "ja" },
+  { pattern: /[가-힯]/g, language: "ko" },
+  { pattern: /[一-鿿]/g, language: "zh" },
+  { pattern: /[؀-ۿ]/g, language: "ar" },
+  { pattern: /[֐-׿]/g, language: "he" },
+  { pattern: /[ऀ-ॿ]/g, language: "hi" },
+  { pattern: /[฀-๿]/g, language: "th" },
+  { pattern: /[Ͱ-Ͽ]/g, language: "el" },
+  { pattern: /[Ѐ-ӿ]/g, language: "ru" },
+];
+
+// Letters only some of the languages sharing a script use. Groups are tried in order, and the
+// first with any of its letters in the text decides: its language with the most of them wins.
+// Urdu goes first because it writes the Persian letters too
+const SCRIPT_VARIANTS: Record<string, { letters: RegExp; language: string }[][]> = {
+  ru: [
+    [
+      { letters: /[іїєґ]/giu, language: "uk" },
+      { letters: /[ыэъё]/giu, language: "ru" },
+    ],
+  ],
+  ar: [
+    [{ letters: /[ٹڈڑںھے]/gu, language: "ur" }],
+    [
+      { letters: /[پچژگکی]/gu, language: "fa" },
+      { letters: /[يكة]/gu, language: "ar" },
+    ],
+  ],
+};
+
+// Which language of a shared script the text is in, or null when nothing tells them apart
+function detectScriptVariant(text: string, scriptLanguage: string): string | null {
+  for (const group of SCRIPT_VARIANTS[scriptLanguage] || []) {
+    let best: string | null = null;
+    let bestCount = 0;
+    for (const { letters, language } of group) {
+      const count = text.match(letters)?.length ?? 0;
+      if (count > bestCount) {
+        best = language;
+        bestCount = count;
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+}
+
+// Common function words for Latin-script languages
+const STOP_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "in", "is", "was", "for", "on", "with", "that", "by", "from", "has", "have", "are", "were", "after"],
+  es: ["el", "la", "los", "las", "de", "del", "y", "en", "que", "por", "con", "para", "una", "se", "es", "tras"],
+  fr: ["le", "la", "les", "des", "du", "de", "et", "en", "un", "une", "est", "dans", "pour", "sur", "qui", "avec", "au", "aux"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "mit", "von", "den", "dem", "ein", "eine", "auf", "für", "sich", "bei", "nach"],
+  pt: ["o", "os", "as", "do", "da", "dos", "das", "e", "em", "que", "um", "uma", "para", "com", "no", "na", "não", "após"],
+  it: ["il", "lo", "gli", "della", "delle", "di", "e", "che", "un", "una", "per", "con", "nel", "nella", "sono", "dopo"],
+  tr: ["ve", "bir", "bu", "için", "ile", "da", "de", "olarak", "gibi", "daha", "sonra", "olan"],
+  id: ["yang", "dan", "di", "ini", "itu", "dengan", "untuk", "dari", "dalam", "tidak", "akan", "pada"],
+};
+
+// Share of letters a script needs before it decides the language
+const MIN_SCRIPT_SHARE = 0.3;
+const MIN_STOP_WORD_HITS = 2;
+
+/**
+ * Best-effort language detection
+ * Non-Latin scripts are recognised by character range, and languages sharing one (Russian and
+ * Ukrainian, Arabic, Persian and Urdu) by the letters only one of them uses. Latin-script
+ * languages are recognised by function words
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return { language: UNKNOWN_LANGUAGE, certain: false };
+
+  for (const { pattern, language } of SCRIPT_LANGUAGES) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count / letters < MIN_SCRIPT_SHARE) continue;
+    if (!SCRIPT_VARIANTS[language]) return { language, certain: true };
+    const variant = detectScriptVariant(text, language);
+    return { language: variant || language, certain: variant !== null };
+  }
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best = UNKNOWN_LANGUAGE;
+  let bestHits = 0;
+
+  for (const [language, stopWords] of Object.entries(STOP_WORDS)) {
+    const vocabulary = new Set(stopWords);
+    const hits = words.filter((word) => vocabulary.has(word)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+
+  return bestHits >= MIN_STOP_WORD_HITS
+    ? { language: best, certain: true }
+    : { language: UNKNOWN_LANGUAGE, certain: false };
+}
+
+/**
+ * English display name for a language code ("es" -> "Spanish")
+ */
+export function getLanguageName(code: string): string {
+  if (code === UNKNOWN_LANGUAGE) return "Unknown language";
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,148 @@
+import type { LLMProvider } from "./llm";
+
+// Most LLM rate limits are per minute, so a handful of calls in flight is plenty
+const LLM_CONCURRENCY = Math.max(1, Number(process.env.LLM_CONCURRENCY) || 4);
+const LLM_MAX_RETRIES = Math.max(0, Number(process.env.LLM_MAX_RETRIES ?? 4) || 0);
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+// Too many requests, and Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([429, 529]);
+
+export interface LLMQueueStats {
+  concurrency: number;
+  active: number;
+  waiting: number;
+  requests: number;
+  retries: number;
+  // Calls that still failed after their retries, or failed outright
+  failures: number;
+}
+
+interface LLMQueueState {
+  active: number;
+  waiting: (() => void)[];
+  requests: number;
+  retries: number;
+  failures: number;
+}
+
+// Shared through globalThis so route handlers and the ingestion worker queue behind one limit
+const globalForQueue = globalThis as unknown as { llmQueue?: LLMQueueState };
+const state: LLMQueueState = (globalForQueue.llmQueue ??= {
+  active: 0,
+  waiting: [],
+  requests: 0,
+  retries: 0,
+  failures: 0,
+});
+
+/**
+ * An error from an LLM API, carrying the HTTP status so the queue can tell rate limits apart
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LLMRequestError";
+  }
+}
+
+// OpenAI SDK errors carry `status` and `headers`; ours carry `status` and `retryAfterMs`
+function getStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Parse a Retry-After header (in seconds) to milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  const seconds = Number(value);
+  return value && !isNaN(seconds) ? seconds * 1000 : undefined;
+}
+
+function getRetryAfterMs(error: unknown): number | undefined {
+  if (error instanceof LLMRequestError) return error.retryAfterMs;
+  const headers = (error as { headers?: unknown })?.headers;
+  return headers instanceof Headers ? parseRetryAfter(headers.get("retry-after")) : undefined;
+}
+
+// Exponential backoff with jitter, unless the server said how long to wait
+function retryDelay(attempt: number, error: unknown): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) return Math.min(retryAfter, RETRY_MAX_MS);
+  const backoff = RETRY_BASE_MS * 2 ** attempt;
+  return Math.min(backoff / 2 + Math.random() * (backoff / 2), RETRY_MAX_MS);
+}
+
+async function acquire(): Promise<void> {
+  if (state.active < LLM_CONCURRENCY) {
+    state.active++;
+    return;
+  }
+  // The releasing call hands its slot straight over, so active stays the same
+  await new Promise<void>((resolve) => state.waiting.push(resolve));
+}
+
+function release(): void {
+  const next = state.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+}
+
+/**
+ * Run an LLM call once a slot is free, retrying rate-limited calls with backoff
+ * The slot is held while backing off, which slows everything queued behind it too
+ */
+export async function runLLMCall<T>(call: () => Promise<T>): Promise<T> {
+  await acquire();
+  try {
+    for (let attempt = 0; ; attempt++) {
+      state.requests++;
+      try {
+        return await call();
+      } catch (error) {
+        const status = getStatus(error);
+        if (status === undefined || !RETRYABLE_STATUSES.has(status) || attempt >= LLM_MAX_RETRIES) {
+          state.failures++;
+          throw error;
+        }
+        state.retries++;
+        await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt, error)));
+      }
+    }
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Wrap a provider so every call it makes goes through the queue
+ */
+export function queueProvider(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    complete: (messages, options) => runLLMCall(() => provider.complete(messages, options)),
+    completeStructured: (messages, schema, schemaName, options) =>
+      runLLMCall(() => provider.completeStructured(messages, schema, schemaName, options)),
+  };
+}
+
+export function getLLMQueueStats(): LLMQueueStats {
+  return {
+    concurrency: LLM_CONCURRENCY,
+    active: state.active,
+    waiting: state.waiting.length,
+    requests: state.requests,
+    retries: state.retries,
+    failures: state.failures,
+  };
+}
@@ -0,0 +1,339 @@
+import { readFileSync } from "fs";
+import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { z } from "zod";
+import { LLMRequestError, parseRetryAfter, queueProvider } from "./llm-queue";
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+
+// "openai", "anthropic", "openai-compatible", "fake" or "none"; defaults to whichever key is set
+const LLM_PROVIDER =
+  process.env.LLM_PROVIDER ||
+  (OPENAI_API_KEY ? "openai" : ANTHROPIC_API_KEY ? "anthropic" : "none");
+// OPENAI_MODEL predates LLM_MODEL and still works for OpenAI
+const LLM_MODEL = process.env.LLM_MODEL;
+const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4.1-nano";
+const ANTHROPIC_MODEL = "claude-haiku-4-5";
+const ANTHROPIC_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Any server speaking the OpenAI chat API: Ollama, llama.cpp, vLLM, LM Studio...
+const LLM_BASE_URL = process.env.LLM_BASE_URL || "http://localhost:11434/v1";
+const LLM_API_KEY = process.env.LLM_API_KEY;
+const LOCAL_MODEL = "llama3.1";
+// How a local server is asked for JSON: "json_schema" (constrained decoding), "json_object"
+// (JSON mode plus the schema in the prompt) or "prompt" (the schema in the prompt only)
+const LLM_STRUCTURED_OUTPUT = process.env.LLM_STRUCTURED_OUTPUT || "json_schema";
+
+// Canned responses for the fake provider, see createFakeResponder
+const LLM_FAKE_RESPONSES = process.env.LLM_FAKE_RESPONSES;
+
+const LLM_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_TOKENS = 1024;
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  // Free-text reply
+  complete(messages: LLMMessage[], options?: CompletionOptions): Promise<string>;
+  // Reply parsed and validated against a schema; throws when the model doesn't produce one
+  completeStructured<T>(
+    messages: LLMMessage[],
+    schema: z.ZodType<T>,
+    schemaName: string,
+    options?: CompletionOptions
+  ): Promise<T>;
+}
+
+// Models without constrained decoding wrap JSON in prose or code fences
+function parseStructured<T>(text: string, schema: z.ZodType<T>): T {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end < start) {
+    throw new Error("No JSON object in model response");
+  }
+  return schema.parse(JSON.parse(text.slice(start, end + 1)));
+}
+
+function jsonSchemaFor(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _$schema, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+// Spell the schema out in the system prompt for models that can't be constrained to it
+function withSchemaInstructions(messages: LLMMessage[], schema: z.ZodType): LLMMessage[] {
+  const instructions = `Respond with only a JSON object matching this JSON Schema, and nothing else:\n${JSON.stringify(jsonSchemaFor(schema))}`;
+  const [first, ...rest] = messages;
+  return first?.role === "system"
+    ? [{ role: "system", content: `${first.content}\n\n${instructions}` }, ...rest]
+    : [{ role: "system", content: instructions }, ...messages];
+}
+
+function createOpenAIProvider(model: string): LLMProvider {
+  // Retries are left to the LLM queue, which shares one backoff across all calls
+  const openai = new OpenAI({ apiKey: OPENAI_API_KEY, timeout: LLM_TIMEOUT_MS, maxRetries: 0 });
+
+  return {
+    name: "openai",
+    model,
+    async complete(messages, options = {}) {
+      const response = await openai.chat.completions.create({
+        model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      });
+      return response.choices[0]?.message?.content?.trim() || "";
+    },
+    async completeStructured(messages, schema, schemaName, options = {}) {
+      const completion = await openai.chat.completions.parse({
+        model,
+        messages,
+        response_format: zodResponseFormat(schema, schemaName),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      });
+      const parsed = completion.choices[0]?.message?.parsed;
+      if (!parsed) {
+        throw new Error(`Empty ${schemaName} response`);
+      }
+      return parsed as z.infer<typeof schema>;
+    },
+  };
+}
+
+function createOpenAICompatibleProvider(model: string): LLMProvider {
+  // The SDK insists on a key; local servers ignore it
+  const client = new OpenAI({
+    apiKey: LLM_API_KEY || "not-needed",
+    baseURL: LLM_BASE_URL,
+    timeout: LLM_TIMEOUT_MS,
+    maxRetries: 0,
+  });
+
+  async function create(
+    messages: LLMMessage[],
+    options: CompletionOptions,
+    responseFormat?: OpenAI.ChatCompletionCreateParams["response_format"]
+  ): Promise<string> {
+    const response = await client.chat.completions.create({
+      model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      response_format: responseFormat,
+    });
+    return response.choices[0]?.message?.content || "";
+  }
+
+  return {
+    name: "openai-compatible",
+    model,
+    async complete(messages, options = {}) {
+      return (await create(messages, options)).trim();
+    },
+    async completeStructured(messages, schema, schemaName, options = {}) {
+      switch (LLM_STRUCTURED_OUTPUT) {
+        case "json_object":
+          return parseStructured(
+            await create(withSchemaInstructions(messages, schema), options, { type: "json_object" }),
+            schema
+          );
+        case "prompt":
+          return parseStructured(
+            await create(withSchemaInstructions(messages, schema), options),
+            schema
+          );
+        default:
+          return parseStructured(
+            await create(messages, options, {
+              type: "json_schema",
+              json_schema: { name: schemaName, schema: jsonSchemaFor(schema) },
+            }),
+            schema
+          );
+      }
+    },
+  };
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  input?: unknown;
+}
+
+// Anthropic's Messages API, called directly. Structured output goes through a forced tool call,
+// whose input the model has to fill in against the schema
+function createAnthropicProvider(model: string): LLMProvider {
+  async function send(
+    messages: LLMMessage[],
+    options: CompletionOptions,
+    extra: Record<string, unknown> = {}
+  ): Promise<AnthropicContentBlock[]> {
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    const response = await fetch(ANTHROPIC_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": ANTHROPIC_API_KEY || "",
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      signal: AbortSignal.timeout(LLM_TIMEOUT_MS),
+      body: JSON.stringify({
+        model,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: options.temperature,
+        ...(system && { system }),
+        messages: messages.filter((message) => message.role !== "system"),
+        ...extra,
+      }),
+    });
+    if (!response.ok) {
+      throw new LLMRequestError(
+        `Anthropic request failed: ${response.status} ${await response.text()}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+    const data = await response.json();
+    return data.content || [];
+  }
+
+  return {
+    name: "anthropic",
+    model,
+    async complete(messages, options = {}) {
+      const content = await send(messages, options);
+      return content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text)
+        .join("")
+        .trim();
+    },
+    async completeStructured(messages, schema, schemaName, options = {}) {
+      const content = await send(messages, options, {
+        tools: [
+          {
+            name: schemaName,
+            description: "Record the result in this exact structure",
+            input_schema: jsonSchemaFor(schema),
+          },
+        ],
+        tool_choice: { type: "tool", name: schemaName },
+      });
+      const toolUse = content.find((block) => block.type === "tool_use");
+      if (!toolUse) {
+        throw new Error(`No ${schemaName} tool call in Anthropic response`);
+      }
+      return schema.parse(toolUse.input);
+    },
+  };
+}
+
+export type FakeResponder = (request: { messages: LLMMessage[]; schemaName?: string }) => unknown;
+
+/**
+ * Deterministic provider for tests and offline evaluation
+ * The responder's return value is the reply: text for complete(), an object for completeStructured()
+ */
+export function createFakeProvider(respond: FakeResponder, model = "fake"): LLMProvider {
+  return {
+    name: "fake",
+    model,
+    async complete(messages) {
+      return String(respond({ messages }));
+    },
+    async completeStructured(messages, schema, schemaName) {
+      return schema.parse(respond({ messages, schemaName }));
+    },
+  };
+}
+
+const FakeResponsesSchema = z.record(
+  z.string(),
+  z.array(z.object({ match: z.string().optional(), response: z.unknown() }))
+);
+
+/**
+ * Responder backed by a JSON file of canned replies, keyed by schema name ("text" for free text):
+ * { "event_classification": [{ "match": "earthquake", "response": { ... } }, { "response": { ... } }] }
+ * The first entry whose `match` appears in the last user message wins; an entry without one matches anything
+ */
+export function createFakeResponder(file: string): FakeResponder {
+  const responses = FakeResponsesSchema.parse(JSON.parse(readFileSync(file, "utf-8")));
+
+  return ({ messages, schemaName }) => {
+    const key = schemaName || "text";
+    const prompt =
+      messages.filter((message) => message.role === "user").pop()?.content.toLowerCase() || "";
+    const entry = (responses[key] || []).find(
+      (candidate) => !candidate.match || prompt.includes(candidate.match.toLowerCase())
+    );
+    if (!entry) {
+      throw new Error(`No fake ${key} response for prompt`);
+    }
+    return entry.response;
+  };
+}
+
+/**
+ * The provider LLM_PROVIDER configures, outside the LLM queue, or null when it isn't set up
+ * The app goes through getLLMProvider; this is for scripts that wrap the provider themselves
+ */
+export function createProvider(): LLMProvider | null {
+  switch (LLM_PROVIDER) {
+    case "openai":
+      return OPENAI_API_KEY ? createOpenAIProvider(LLM_MODEL || OPENAI_MODEL) : null;
+    case "anthropic":
+      return ANTHROPIC_API_KEY ? createAnthropicProvider(LLM_MODEL || ANTHROPIC_MODEL) : null;
+    case "openai-compatible":
+      return createOpenAICompatibleProvider(LLM_MODEL || LOCAL_MODEL);
+    case "fake":
+      return LLM_FAKE_RESPONSES ? createFakeProvider(createFakeResponder(LLM_FAKE_RESPONSES)) : null;
+    default:
+      return null;
+  }
+}
+
+// Created on first use so tests and scripts can swap it out first
+let provider: LLMProvider | null | undefined;
+
+/**
+ * The configured LLM provider, or null when none is set up
+ * Calls go through the shared LLM queue (concurrency limit and rate-limit retries)
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (provider === undefined) {
+    try {
+      const created = createProvider();
+      provider = created && queueProvider(created);
+    } catch (error) {
+      console.error(`Error creating LLM provider (${LLM_PROVIDER}):`, error);
+      provider = null;
+    }
+  }
+  return provider;
+}
+
+/**
+ * Replace the configured provider, e.g. with a fake one in tests; null disables LLM features
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next && queueProvider(next);
+}
@@ -0,0 +1,121 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+
+const QUERY_PACKS_FILE =
+  process.env.QUERY_PACKS_CONFIG ||
+  path.join(process.cwd(), "config", "query-packs.json");
+
+export const DEFAULT_PACK_ID = "global";
+
+const DEFAULT_MAX_RESULTS = 20;
+
+export const QuerySpec = z.object({
+  query: z.string().min(1),
+  maxResults: z.number().int().positive().max(100).optional(),
+  freshness: z.enum(["day", "week", "month"]).optional(),
+});
+export type QuerySpec = z.infer<typeof QuerySpec>;
+
+export const QueryPack = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().optional(),
+  queries: z.array(QuerySpec).min(1),
+});
+export type QueryPack = z.infer<typeof QueryPack>;
+
+const QueryPacksConfigSchema = z.object({
+  packs: z.array(QueryPack).min(1),
+});
+
+// Used when there is no config file, so a bare checkout keeps the original query set
+const FALLBACK_PACK: QueryPack = {
+  id: DEFAULT_PACK_ID,
+  name: "Global threats",
+  queries: [
+    "breaking news conflict military",
+    "geopolitical crisis tensions",
+    "protest demonstration unrest",
+    "natural disaster emergency",
+    "earthquake tsunami volcano eruption",
+    "hurricane typhoon cyclone storm",
+    "flooding wildfire drought extreme weather",
+    "terrorism attack security",
+    "cyber attack breach",
+    "diplomatic summit sanctions",
+    "shipping attack piracy maritime",
+    "kidnapping cartel violence crime",
+    "infrastructure dam power grid failure",
+    "food shortage commodity crisis",
+    "missile strike airstrike bombing",
+  ].map((query) => ({ query })),
+};
+
+const FRESHNESS_ORDER = ["day", "week", "month"] as const;
+
+// When packs disagree, keep the wider window (no freshness means no limit)
+function widerFreshness(
+  a: QuerySpec["freshness"],
+  b: QuerySpec["freshness"]
+): QuerySpec["freshness"] {
+  if (!a || !b) return undefined;
+  return FRESHNESS_ORDER.indexOf(a) >= FRESHNESS_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Load the query packs (re-read on each call so edits apply without a restart)
+ */
+export async function loadQueryPacks(): Promise<QueryPack[]> {
+  try {
+    const raw = await fs.readFile(QUERY_PACKS_FILE, "utf-8");
+    return QueryPacksConfigSchema.parse(JSON.parse(raw)).packs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Invalid query packs config, using the default pack:", error);
+    }
+    return [FALLBACK_PACK];
+  }
+}
+
+/**
+ * Combine the selected packs into one query list
+ * Unknown IDs are ignored; a query shared by several packs runs once with the larger result count
+ */
+export async function resolveQueryPacks(packIds?: string[]): Promise<QuerySpec[]> {
+  const packs = await loadQueryPacks();
+  const ids = packIds?.length ? packIds : [DEFAULT_PACK_ID];
+
+  let selected = packs.filter((pack) => ids.includes(pack.id));
+  if (selected.length === 0) {
+    selected = packs.filter((pack) => pack.id === DEFAULT_PACK_ID);
+  }
+  if (selected.length === 0) {
+    selected = packs.slice(0, 1);
+  }
+
+  const merged = new Map<string, QuerySpec>();
+  for (const spec of selected.flatMap((pack) => pack.queries)) {
+    const key = spec.query.toLowerCase();
+    const existing = merged.get(key);
+    merged.set(key, {
+      query: spec.query,
+      maxResults: Math.max(
+        existing?.maxResults ?? 0,
+        spec.maxResults ?? DEFAULT_MAX_RESULTS
+      ),
+      freshness: existing
+        ? widerFreshness(existing.freshness, spec.freshness)
+        : spec.freshness,
+    });
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Whether a selection is the default one (what the ingestion worker fetches)
+ */
+export function isDefaultPackSelection(packIds?: string[]): boolean {
+  return !packIds?.length || (packIds.length === 1 && packIds[0] === DEFAULT_PACK_ID);
+}
@@ -0,0 +1,212 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { GeoLocation } from "@/types";
+import { foldPlaceName, resolveCountryCode } from "./gazetteer";
+import { pointInPolygon } from "./utils";
+
+const COUNTRY_BOUNDARIES_FILE =
+  process.env.COUNTRY_BOUNDARIES_FILE ||
+  path.join(process.cwd(), "config", "country-boundaries.json");
+
+// Simplified outlines drift a few km along borders, so a point just outside its
+// stated country is given the benefit of the doubt
+const BORDER_TOLERANCE_KM = 25;
+const KM_PER_DEGREE = 111.32;
+// Coordinates that land in another country are probably the wrong place
+const MISMATCH_CONFIDENCE = 0.3;
+
+const RingSchema = z.array(z.tuple([z.number(), z.number()]));
+
+// Polygons are GeoJSON MultiPolygon coordinates: each one an outer ring then its holes, as [lng, lat]
+const BoundaryFields = {
+  name: z.string(),
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+  polygons: z.array(z.array(RingSchema)),
+};
+
+const CountryBoundarySchema = z.object({
+  // ISO 3166-1 alpha-2 code
+  code: z.string(),
+  ...BoundaryFields,
+});
+
+const RegionBoundarySchema = z.object({
+  country: z.string(),
+  ...BoundaryFields,
+});
+
+const BoundariesSchema = z.object({
+  source: z.string().optional(),
+  countries: z.array(CountryBoundarySchema),
+  regions: z.array(RegionBoundarySchema).default([]),
+});
+
+export type CountryBoundary = z.infer<typeof CountryBoundarySchema>;
+type RegionBoundary = z.infer<typeof RegionBoundarySchema>;
+type Boundary = CountryBoundary | RegionBoundary;
+
+interface BoundaryIndex {
+  countries: CountryBoundary[];
+  byCode: Map<string, CountryBoundary>;
+  regionsByCountry: Map<string, RegionBoundary[]>;
+}
+
+export interface ReverseGeocodeResult {
+  country: string;
+  countryCode: string;
+  // First-level admin region, when the boundary file includes them
+  region?: string;
+}
+
+function buildIndex(): BoundaryIndex {
+  const index: BoundaryIndex = { countries: [], byCode: new Map(), regionsByCountry: new Map() };
+
+  let boundaries: z.infer<typeof BoundariesSchema>;
+  try {
+    boundaries = BoundariesSchema.parse(
+      JSON.parse(readFileSync(COUNTRY_BOUNDARIES_FILE, "utf-8"))
+    );
+  } catch (error) {
+    console.error("Error loading country boundaries, reverse geocoding is disabled:", error);
+    return index;
+  }
+
+  index.countries = boundaries.countries;
+  for (const country of boundaries.countries) {
+    index.byCode.set(country.code.toUpperCase(), country);
+  }
+  for (const region of boundaries.regions) {
+    const code = region.country.toUpperCase();
+    index.regionsByCountry.set(code, [...(index.regionsByCountry.get(code) || []), region]);
+  }
+
+  return index;
+}
+
+// Loaded once per process, like the gazetteer
+let boundaryIndex: BoundaryIndex | null = null;
+
+function getIndex(): BoundaryIndex {
+  boundaryIndex ??= buildIndex();
+  return boundaryIndex;
+}
+
+function containsPoint(boundary: Boundary, latitude: number, longitude: number): boolean {
+  const [west, south, east, north] = boundary.bbox;
+  if (longitude < west || longitude > east || latitude < south || latitude > north) {
+    return false;
+  }
+
+  return boundary.polygons.some(
+    ([outer, ...holes]) =>
+      pointInPolygon([longitude, latitude], outer) &&
+      !holes.some((hole) => pointInPolygon([longitude, latitude], hole))
+  );
+}
+
+// Shortest distance from a point to a boundary's edges, on a flat projection around the point
+function distanceToBoundaryKm(boundary: Boundary, latitude: number, longitude: number): number {
+  const scale = Math.cos((latitude * Math.PI) / 180);
+  let closest = Infinity;
+
+  for (const ring of boundary.polygons.flat()) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const ax = (ring[j][0] - longitude) * scale;
+      const ay = ring[j][1] - latitude;
+      const bx = (ring[i][0] - longitude) * scale;
+      const by = ring[i][1] - latitude;
+      const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+      const t =
+        lengthSquared === 0
+          ? 0
+          : Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSquared));
+      closest = Math.min(closest, Math.hypot(ax + t * (bx - ax), ay + t * (by - ay)));
+    }
+  }
+
+  return closest * KM_PER_DEGREE;
+}
+
+// The boundary for a country name, alternate name or code, if we can tell which country it means
+function findCountryBoundary(name: string): CountryBoundary | null {
+  const index = getIndex();
+  const code = resolveCountryCode(name);
+  if (code) return index.byCode.get(code) || null;
+  const key = foldPlaceName(name);
+  return index.countries.find((country) => foldPlaceName(country.name) === key) || null;
+}
+
+export function isReverseGeocodingEnabled(): boolean {
+  return getIndex().countries.length > 0;
+}
+
+/**
+ * Outline of a country by ISO 3166-1 alpha-2 code, for highlighting it on the map
+ */
+export function getCountryBoundary(code: string): CountryBoundary | null {
+  return getIndex().byCode.get(code.toUpperCase()) || null;
+}
+
+/**
+ * Country outline containing a point, or null at sea and outside the loaded boundaries
+ */
+export function getCountryBoundaryAt(latitude: number, longitude: number): CountryBoundary | null {
+  return getIndex().countries.find((country) => containsPoint(country, latitude, longitude)) || null;
+}
+
+/**
+ * Country and first-level admin region containing a point
+ * Returns null at sea, or when no boundaries are loaded
+ */
+export function reverseGeocode(latitude: number, longitude: number): ReverseGeocodeResult | null {
+  const country = getCountryBoundaryAt(latitude, longitude);
+  if (!country) return null;
+
+  const region = getIndex()
+    .regionsByCountry.get(country.code.toUpperCase())
+    ?.find((candidate) => containsPoint(candidate, latitude, longitude));
+
+  return { country: country.name, countryCode: country.code.toUpperCase(), region: region?.name };
+}
+
+/**
+ * Check a location's coordinates against the country it is said to be in
+ * Missing country and region are filled in from the boundaries. When the coordinates
+ * fall in a different country, the location takes that country, its confidence is cut
+ * and `countryMismatch` records both. Stated countries we can't identify are left alone
+ */
+export function validateLocationCountry(
+  location: GeoLocation,
+  statedCountry = location.country
+): GeoLocation {
+  const actual = reverseGeocode(location.latitude, location.longitude);
+  if (!actual) return location;
+
+  const statedBoundary = statedCountry ? findCountryBoundary(statedCountry) : null;
+  const matches =
+    !statedBoundary ||
+    statedBoundary.code.toUpperCase() === actual.countryCode ||
+    distanceToBoundaryKm(statedBoundary, location.latitude, location.longitude) <=
+      BORDER_TOLERANCE_KM;
+
+  // A region the geocoder gave belongs to whichever country it gave, and vice versa
+  const geocodedCountry = location.country ? findCountryBoundary(location.country) : null;
+  const sameCountry = geocodedCountry?.code.toUpperCase() === actual.countryCode;
+
+  if (matches) {
+    return {
+      ...location,
+      country: location.country || actual.country,
+      region: location.region || (!location.country || sameCountry ? actual.region : undefined),
+    };
+  }
+
+  return {
+    ...location,
+    country: actual.country,
+    region: actual.region || (sameCountry ? location.region : undefined),
+    confidence: Math.min(location.confidence ?? 1, MISMATCH_CONFIDENCE),
+    countryMismatch: { stated: statedCountry!, actual: actual.country },
+  };
+}
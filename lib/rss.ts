@@ -0,0 +1,91 @@
+export interface FeedItem {
+  title: string;
+  url: string;
+  content: string;
+  publishedDate?: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Unwrap CDATA, drop markup and decode entities
+function toPlainText(value: string): string {
+  const unwrapped = value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  return decodeEntities(unwrapped.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function getTagContent(xml: string, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const match = xml.match(
+      new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i")
+    );
+    if (match && match[1].trim()) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+// Atom links carry the URL in an href attribute rather than as text
+function getAtomLink(xml: string): string | undefined {
+  const links = xml.match(/<link\b[^>]*>/gi) || [];
+  const preferred =
+    links.find((link) => /rel=["']alternate["']/i.test(link)) ||
+    links.find((link) => !/rel=/i.test(link)) ||
+    links[0];
+  return preferred?.match(/href=["']([^"']+)["']/i)?.[1];
+}
+
+function parseDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(toPlainText(value));
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into plain feed items
+ */
+export function parseFeed(xml: string): FeedItem[] {
+  const blocks =
+    xml.match(/<item\b[\s\S]*?<\/item>/gi) ||
+    xml.match(/<entry\b[\s\S]*?<\/entry>/gi) ||
+    [];
+
+  return blocks
+    .map((block) => {
+      const title = toPlainText(getTagContent(block, ["title"]) || "");
+      const linkText = getTagContent(block, ["link"]);
+      const url = linkText
+        ? toPlainText(linkText)
+        : decodeEntities(getAtomLink(block) || "");
+      const content = toPlainText(
+        getTagContent(block, ["content:encoded", "description", "content", "summary"]) || ""
+      );
+      const publishedDate = parseDate(
+        getTagContent(block, ["pubDate", "published", "updated", "dc:date"])
+      );
+
+      return { title, url, content, publishedDate };
+    })
+    .filter((item) => item.title && item.url);
+}
@@ -0,0 +1,214 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { searchEvents, type SearchFreshness } from "./valyu";
+import { parseFeed } from "./rss";
+import type { RawSearchResult } from "./event-pipeline";
+import type { QuerySpec } from "./query-packs";
+
+const SOURCES_CONFIG_FILE =
+  process.env.SOURCES_CONFIG || path.join(process.cwd(), "config", "sources.json");
+
+const FEED_TIMEOUT_MS = 15000;
+
+const SourcesConfigSchema = z.object({
+  adapters: z.array(
+    z.discriminatedUnion("type", [
+      z.object({
+        type: z.literal("valyu"),
+        enabled: z.boolean().default(true),
+      }),
+      z.object({
+        type: z.literal("rss"),
+        enabled: z.boolean().default(true),
+        maxItemsPerFeed: z.number().int().positive().default(20),
+        feeds: z.array(
+          z.object({
+            name: z.string(),
+            url: z.string().url(),
+          })
+        ),
+      }),
+    ])
+  ),
+});
+
+type SourcesConfig = z.infer<typeof SourcesConfigSchema>;
+type RssConfig = Extract<SourcesConfig["adapters"][number], { type: "rss" }>;
+
+// Used when there is no config file - matches the original Valyu-only behaviour
+const DEFAULT_CONFIG: SourcesConfig = {
+  adapters: [{ type: "valyu", enabled: true }],
+};
+
+export interface SourceFetchOptions {
+  accessToken?: string;
+  // Keep only feed items that mention a query term. Default-pack and ingestion fetches
+  // read feeds whole; ad-hoc queries and other packs would get every unrelated item
+  matchFeedsToQueries?: boolean;
+}
+
+// One independently fetched unit of work: a search query or a feed URL
+export interface SourceTarget {
+  label: string;
+  maxResults?: number;
+  freshness?: SearchFreshness;
+  // Feed items are kept only if they mention one of these
+  terms?: string[];
+}
+
+export interface SourceFetchResult {
+  results: RawSearchResult[];
+  requiresReauth?: boolean;
+  requiresCredits?: boolean;
+}
+
+/**
+ * A provider of raw news items for the event pipeline
+ * Each adapter splits its work into targets (search queries, feed URLs)
+ * that are fetched independently, so a failure can be pinned to one target
+ */
+export interface SourceAdapter {
+  name: string;
+  listTargets(queries: QuerySpec[], options: SourceFetchOptions): SourceTarget[];
+  fetchTarget(target: SourceTarget, options: SourceFetchOptions): Promise<SourceFetchResult>;
+}
+
+export interface SourceTargetResult {
+  adapter: string;
+  target: string;
+  durationMs: number;
+  result?: SourceFetchResult;
+  error?: string;
+}
+
+const valyuAdapter: SourceAdapter = {
+  name: "valyu",
+  listTargets: (queries) =>
+    queries.map((spec) => ({
+      label: spec.query,
+      maxResults: spec.maxResults,
+      freshness: spec.freshness,
+    })),
+  fetchTarget: (target, options) =>
+    searchEvents(target.label, {
+      maxResults: target.maxResults || 20,
+      freshness: target.freshness,
+      accessToken: options.accessToken,
+    }),
+};
+
+const QUERY_STOP_WORDS = new Set(["the", "and", "for", "with", "from", "news", "latest", "breaking"]);
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Search terms of the queries, without a plural "s" so "attacks" also finds "attacked"
+function queryTerms(queries: QuerySpec[]): string[] {
+  const terms = queries
+    .flatMap((spec) => toWords(spec.query))
+    .filter((word) => word.length >= 3 && !QUERY_STOP_WORDS.has(word))
+    .map((word) => (word.length > 4 && word.endsWith("s") ? word.slice(0, -1) : word));
+  return Array.from(new Set(terms));
+}
+
+// A feed item matches when one of its words starts with a search term
+function mentionsAny(item: RawSearchResult, terms: string[]): boolean {
+  const words = toWords(`${item.title} ${item.content}`);
+  return words.some((word) => terms.some((term) => word.startsWith(term)));
+}
+
+// Feeds aren't searchable: every run reads each configured feed, and items are
+// matched against the query terms locally when the fetch asks for it
+function createRssAdapter(config: RssConfig): SourceAdapter {
+  const feedNames = new Map(config.feeds.map((feed) => [feed.url, feed.name]));
+
+  return {
+    name: "rss",
+    listTargets: (queries, options) => {
+      const terms = options.matchFeedsToQueries ? queryTerms(queries) : undefined;
+      return config.feeds.map((feed) => ({ label: feed.url, terms }));
+    },
+    fetchTarget: async ({ label: url, terms }) => {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+        headers: { Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml" },
+      });
+      if (!response.ok) {
+        throw new Error(`Feed request failed: ${response.status}`);
+      }
+
+      const items = parseFeed(await response.text()).filter(
+        (item) => !terms || mentionsAny(item, terms)
+      );
+      return {
+        results: items.slice(0, config.maxItemsPerFeed).map((item) => ({
+          ...item,
+          source: feedNames.get(url) || new URL(url).hostname,
+        })),
+      };
+    },
+  };
+}
+
+async function loadSourcesConfig(): Promise<SourcesConfig> {
+  try {
+    const raw = await fs.readFile(SOURCES_CONFIG_FILE, "utf-8");
+    return SourcesConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Invalid sources config, falling back to Valyu only:", error);
+    }
+    return DEFAULT_CONFIG;
+  }
+}
+
+/**
+ * Build the enabled adapters from config (re-read on each call so edits apply without a restart)
+ */
+export async function getEnabledAdapters(): Promise<SourceAdapter[]> {
+  const config = await loadSourcesConfig();
+
+  return config.adapters
+    .filter((adapter) => adapter.enabled)
+    .map((adapter) =>
+      adapter.type === "rss" ? createRssAdapter(adapter) : valyuAdapter
+    );
+}
+
+/**
+ * Fetch every target of every enabled adapter in parallel
+ * Errors are captured per target rather than failing the whole fetch
+ */
+export async function fetchFromSources(
+  queries: QuerySpec[],
+  options: SourceFetchOptions = {}
+): Promise<SourceTargetResult[]> {
+  const adapters = await getEnabledAdapters();
+
+  const tasks = adapters.flatMap((adapter) =>
+    adapter.listTargets(queries, options).map(async (target): Promise<SourceTargetResult> => {
+      const startedAt = Date.now();
+      try {
+        const result = await adapter.fetchTarget(target, options);
+        return {
+          adapter: adapter.name,
+          target: target.label,
+          durationMs: Date.now() - startedAt,
+          result,
+        };
+      } catch (error) {
+        console.error(`Source ${adapter.name} failed for ${target.label}:`, error);
+        return {
+          adapter: adapter.name,
+          target: target.label,
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    })
+  );
+
+  return Promise.all(tasks);
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import {
+  SourceTier,
+  sourceTierRanks,
+  type SourceReliability,
+  type ThreatEvent,
+} from "@/types";
+
+const SOURCE_REGISTRY_FILE =
+  process.env.SOURCE_REGISTRY_CONFIG ||
+  path.join(process.cwd(), "config", "source-registry.json");
+
+// Events resting on a single source at this rank or worse are scored down (see threat-score)
+const LOW_CREDIBILITY_RANK = sourceTierRanks["state-media"];
+
+const SourceRegistryConfigSchema = z.object({
+  tiers: z.partialRecord(SourceTier, z.array(z.string())).default({}),
+  // Always admitted, even when a deny entry matches
+  allow: z.array(z.string()).default([]),
+  // Never admitted (reference sites, vendor marketing, disinformation outlets)
+  deny: z.array(z.string()).default([]),
+});
+
+type SourceRegistryConfig = z.infer<typeof SourceRegistryConfigSchema>;
+
+// Used when there is no config file - keeps the original blocked domains
+const DEFAULT_CONFIG: SourceRegistryConfig = {
+  tiers: {},
+  allow: [],
+  deny: ["wikipedia.org", "brighteon.com", "fortinet.com", "cisa.gov"],
+};
+
+export interface SourceRegistry {
+  getTier(url: string | undefined): SourceTier;
+  isDenied(url: string): boolean;
+}
+
+function getHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+// A domain entry covers itself and its subdomains
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.toLowerCase().replace(/^www\./, "");
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+async function loadRegistryConfig(): Promise<SourceRegistryConfig> {
+  try {
+    const raw = await fs.readFile(SOURCE_REGISTRY_FILE, "utf-8");
+    return SourceRegistryConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Invalid source registry, using the default deny list:", error);
+    }
+    return DEFAULT_CONFIG;
+  }
+}
+
+/**
+ * Load the source registry (re-read on each call so edits apply without a restart)
+ */
+export async function loadSourceRegistry(): Promise<SourceRegistry> {
+  const config = await loadRegistryConfig();
+  // Most reliable tier first, so a domain listed twice gets the better tier
+  const tierEntries = SourceTier.options.flatMap((tier) =>
+    (config.tiers[tier] || []).map((domain) => ({ tier, domain }))
+  );
+
+  return {
+    getTier(url) {
+      const hostname = getHostname(url);
+      if (!hostname) return "unknown";
+      return (
+        tierEntries.find((entry) => matchesDomain(hostname, entry.domain))?.tier ||
+        "unknown"
+      );
+    },
+    isDenied(url) {
+      const hostname = getHostname(url);
+      if (!hostname) return false;
+      if (config.allow.some((domain) => matchesDomain(hostname, domain))) {
+        return false;
+      }
+      return config.deny.some((domain) => matchesDomain(hostname, domain));
+    },
+  };
+}
+
+/**
+ * Rate an incident by its most credible source
+ * A lone low-credibility report is marked discounted until another outlet corroborates it
+ */
+export function assessSourceReliability(
+  event: ThreatEvent,
+  registry: SourceRegistry
+): ThreatEvent {
+  const urls = event.sources?.length
+    ? event.sources.map((source) => source.sourceUrl)
+    : [event.sourceUrl];
+
+  const outlets = new Set(
+    urls.map((url) => getHostname(url)).filter((host): host is string => !!host)
+  );
+  const tier = urls
+    .map((url) => registry.getTier(url))
+    .reduce<SourceTier>(
+      (best, current) =>
+        sourceTierRanks[current] < sourceTierRanks[best] ? current : best,
+      "unknown"
+    );
+  const rank = sourceTierRanks[tier];
+  const discounted =
+    outlets.size <= 1 && rank >= LOW_CREDIBILITY_RANK && event.threatLevel !== "info";
+
+  const sourceReliability: SourceReliability = {
+    tier,
+    rank,
+    outletCount: outlets.size,
+    ...(discounted && { discounted: true }),
+  };
+
+  return { ...event, sourceReliability };
+}
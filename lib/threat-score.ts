@@ -0,0 +1,229 @@
+import {
+  ThreatLevel,
+  threatLevelScores,
+  type ThreatEvent,
+  type ThreatScore,
+} from "@/types";
+import { findNearestChokepoint } from "./water-bodies";
+
+// Lowest score for each level; anything under the low threshold is info
+const LEVEL_THRESHOLDS: [ThreatLevel, number][] = [
+  ["critical", 80],
+  ["high", 60],
+  ["medium", 40],
+  ["low", 20],
+];
+
+// Casualties count on a log scale, deaths most
+const MAX_CASUALTY_POINTS = 20;
+const CASUALTY_WEIGHTS = { killed: 6, injured: 3, displaced: 2 } as const;
+
+// Shipping chokepoints within this distance add up to MAX_PROXIMITY_POINTS, more the closer they are
+const ASSET_RADIUS_KM = 100;
+const MAX_PROXIMITY_POINTS = 5;
+const POINTS_PER_INFRASTRUCTURE = 2;
+const MAX_INFRASTRUCTURE_POINTS = 5;
+
+// Enough to drop a lone low-credibility report one level
+const LOW_CREDIBILITY_POINTS = -15;
+const MAX_CORROBORATION_POINTS = 10;
+const POINTS_PER_EXTRA_OUTLET = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+// [age limit, points], checked in order; older reports get the last entry's points
+const RECENCY_POINTS: [number, number][] = [
+  [6 * HOUR_MS, 5],
+  [24 * HOUR_MS, 0],
+  [72 * HOUR_MS, -5],
+  [Infinity, -10],
+];
+
+export function threatLevelForScore(score: number): ThreatLevel {
+  return LEVEL_THRESHOLDS.find(([, threshold]) => score >= threshold)?.[0] ?? "info";
+}
+
+function clampScore(score: number, [min, max]: [number, number] = [0, 100]): number {
+  return Math.min(Math.max(score, min), max);
+}
+
+// Lowest and highest score that derive this level
+function scoreBand(level: ThreatLevel): [number, number] {
+  const index = LEVEL_THRESHOLDS.findIndex(([candidate]) => candidate === level);
+  const min = index === -1 ? 0 : LEVEL_THRESHOLDS[index][1];
+  const above = index === -1 ? LEVEL_THRESHOLDS[LEVEL_THRESHOLDS.length - 1] : LEVEL_THRESHOLDS[index - 1];
+  return [min, above ? above[1] - 1 : 100];
+}
+
+/**
+ * Hold a scored event at a level an analyst set, keeping the score as close as it can within that level
+ * The event is expected to list threatLevel among its overriddenFields, so reads keep the level too
+ */
+export function pinThreatLevel(event: ThreatEvent, level: ThreatLevel): ThreatEvent {
+  if (!event.threatScore) return { ...event, threatLevel: level };
+  const score = clampScore(event.threatScore.score, scoreBand(level));
+  return { ...event, threatLevel: level, threatScore: { ...event.threatScore, score } };
+}
+
+/**
+ * The event as the classifier left it: its classified threat level, with no score or credibility rating
+ * Events stored before scoring had a lone low-credibility report's level lowered one step, which is undone
+ */
+export function unscored(event: ThreatEvent): ThreatEvent {
+  const levels = ThreatLevel.options;
+  const threatLevel =
+    event.threatScore?.classifiedLevel ??
+    (event.sourceReliability?.discounted
+      ? levels[Math.max(levels.indexOf(event.threatLevel) - 1, 0)]
+      : event.threatLevel);
+  return { ...event, threatLevel, threatScore: undefined, sourceReliability: undefined };
+}
+
+function signed(points: number): string {
+  return points >= 0 ? `+${points}` : String(points);
+}
+
+function formatAge(ageMs: number): string {
+  if (ageMs < HOUR_MS) return "under an hour";
+  if (ageMs < 48 * HOUR_MS) return `${Math.round(ageMs / HOUR_MS)}h`;
+  return `${Math.round(ageMs / (24 * HOUR_MS))} days`;
+}
+
+function scoreCasualties(event: ThreatEvent): { points: number; reason: string | null } {
+  const impact = event.impact || {};
+  const figures = (Object.keys(CASUALTY_WEIGHTS) as (keyof typeof CASUALTY_WEIGHTS)[])
+    .filter((field) => (impact[field] ?? 0) > 0)
+    .map((field) => ({ field, count: impact[field]! }));
+
+  const points = Math.min(
+    Math.round(
+      figures.reduce(
+        (sum, { field, count }) => sum + CASUALTY_WEIGHTS[field] * Math.log10(1 + count),
+        0
+      )
+    ),
+    MAX_CASUALTY_POINTS
+  );
+  const reason = figures.map(({ field, count }) => `${count.toLocaleString("en-US")} ${field}`).join(", ");
+  return { points, reason: points > 0 ? reason : null };
+}
+
+function scoreAssets(event: ThreatEvent): { points: number; reason: string | null } {
+  const reasons: string[] = [];
+  let points = 0;
+
+  const chokepoint = findNearestChokepoint(
+    event.location.latitude,
+    event.location.longitude,
+    ASSET_RADIUS_KM
+  );
+  const proximityPoints = chokepoint
+    ? Math.round(MAX_PROXIMITY_POINTS * (1 - chokepoint.distanceKm / ASSET_RADIUS_KM))
+    : 0;
+  if (chokepoint && proximityPoints > 0) {
+    points += proximityPoints;
+    reasons.push(
+      chokepoint.distanceKm < 1
+        ? `at ${chokepoint.name}`
+        : `${Math.round(chokepoint.distanceKm)} km from ${chokepoint.name}`
+    );
+  }
+
+  const infrastructure = event.impact?.infrastructure || [];
+  if (infrastructure.length > 0) {
+    points += Math.min(infrastructure.length * POINTS_PER_INFRASTRUCTURE, MAX_INFRASTRUCTURE_POINTS);
+    reasons.push(`${infrastructure.join(", ")} hit`);
+  }
+
+  return { points, reason: points > 0 ? reasons.join(", ") : null };
+}
+
+function scoreCorroboration(event: ThreatEvent): { points: number; reason: string | null } {
+  const reliability = event.sourceReliability;
+  if (!reliability) return { points: 0, reason: null };
+  if (reliability.discounted) {
+    return { points: LOW_CREDIBILITY_POINTS, reason: "single low-credibility source" };
+  }
+  const points = Math.min(
+    Math.max(reliability.outletCount - 1, 0) * POINTS_PER_EXTRA_OUTLET,
+    MAX_CORROBORATION_POINTS
+  );
+  return { points, reason: points > 0 ? `${reliability.outletCount} outlets` : null };
+}
+
+function scoreRecency(event: ThreatEvent, now: number): { points: number; reason: string | null } {
+  const ageMs = Math.max(now - new Date(event.timestamp).getTime(), 0);
+  const [, points] = RECENCY_POINTS.find(([limit]) => ageMs < limit)!;
+  return { points, reason: points !== 0 ? `reported ${formatAge(ageMs)} ago` : null };
+}
+
+/**
+ * Score an event 0-100 from its classified severity, casualties, nearby critical assets and
+ * source corroboration, and derive its threat level from the score
+ * This is the stored score; recency is added when the event is read, see withRecency
+ * Expects a classified event with its source reliability assessed
+ */
+export function scoreThreat(event: ThreatEvent): ThreatEvent {
+  const classifiedLevel = event.threatScore?.classifiedLevel ?? event.threatLevel;
+  const severity = threatLevelScores[classifiedLevel];
+  const casualties = scoreCasualties(event);
+  const assets = scoreAssets(event);
+  const corroboration = scoreCorroboration(event);
+
+  const score = clampScore(severity + casualties.points + assets.points + corroboration.points);
+
+  const rationale = [
+    `Classified ${classifiedLevel} (${signed(severity)})`,
+    ...[casualties, assets, corroboration]
+      .filter(({ reason }) => reason)
+      .map(({ points, reason }) => `${reason} (${signed(points)})`),
+  ].join("; ");
+
+  const threatScore: ThreatScore = {
+    score,
+    classifiedLevel,
+    factors: {
+      severity,
+      casualties: casualties.points,
+      assets: assets.points,
+      corroboration: corroboration.points,
+    },
+    rationale,
+  };
+
+  return { ...event, threatLevel: threatLevelForScore(score), threatScore };
+}
+
+/**
+ * A stored event's score and threat level as of `now`, with recency added to the stored score
+ * A threat level an analyst set is kept, with the score held within it
+ */
+export function withRecency(event: ThreatEvent, now = Date.now()): ThreatEvent {
+  const { threatScore } = event;
+  if (!threatScore) return event;
+
+  const recency = scoreRecency(event, now);
+  const pinned = event.overriddenFields?.includes("threatLevel") ?? false;
+  const { severity, casualties, assets, corroboration } = threatScore.factors;
+  const score = pinned
+    ? clampScore(threatScore.score + recency.points, scoreBand(event.threatLevel))
+    : clampScore(severity + casualties + assets + corroboration + recency.points);
+
+  const rationale = [
+    threatScore.rationale,
+    recency.reason && `${recency.reason} (${signed(recency.points)})`,
+    pinned && `set ${event.threatLevel} by an analyst`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+  return {
+    ...event,
+    threatLevel: pinned ? event.threatLevel : threatLevelForScore(score),
+    threatScore: {
+      ...threatScore,
+      score,
+      factors: { ...threatScore.factors, recency: recency.points },
+      rationale,
+    },
+  };
+}
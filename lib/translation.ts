@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { getLanguageName, type DetectedLanguage } from "./language";
+import { getLLMProvider } from "./llm";
+
+// "llm" (the configured LLM provider), "libretranslate" or "none". "openai" is
+// accepted as an older name for "llm"
+const TRANSLATION_PROVIDER = process.env.TRANSLATION_PROVIDER || "llm";
+const LIBRETRANSLATE_URL = process.env.LIBRETRANSLATE_URL || "http://localhost:5000";
+const LIBRETRANSLATE_API_KEY = process.env.LIBRETRANSLATE_API_KEY;
+
+// Only the start of an article is needed for classification and the summary, so the LLM
+// translates that much; the rest is kept in the original language
+const MAX_TRANSLATED_CHARS = 2000;
+const TRANSLATION_TIMEOUT_MS = 20000;
+
+export interface TranslationInput {
+  title: string;
+  content: string;
+}
+
+export interface Translator {
+  name: string;
+  translate(input: TranslationInput, detected: DetectedLanguage): Promise<TranslationInput>;
+}
+
+const TranslationSchema = z.object({
+  title: z.string().describe("The headline in English"),
+  content: z.string().describe("The article text in English"),
+});
+
+// Split at the last whitespace before the limit so no word is cut in half
+function splitAtLimit(text: string, limit: number): [string, string] {
+  if (text.length <= limit) return [text, ""];
+  const boundary = text.slice(0, limit).search(/\s\S*$/);
+  const end = boundary > 0 ? boundary : limit;
+  return [text.slice(0, end), text.slice(end)];
+}
+
+function createLLMTranslator(): Translator {
+  return {
+    name: "llm",
+    async translate(input, { language, certain }) {
+      const llm = getLLMProvider();
+      if (!llm) {
+        throw new Error("No LLM provider configured");
+      }
+      const article = certain
+        ? `${getLanguageName(language)} news article`
+        : `news article (probably ${getLanguageName(language)})`;
+      const [head, rest] = splitAtLimit(input.content, MAX_TRANSLATED_CHARS);
+
+      const translated = await llm.completeStructured(
+        [
+          {
+            role: "system",
+            content: `Translate this ${article} into English. Keep place names, people and organisations recognisable, and do not summarise or add commentary.`,
+          },
+          {
+            role: "user",
+            content: `Headline: ${input.title}\n\nContent: ${head}`,
+          },
+        ],
+        TranslationSchema,
+        "translation",
+        { temperature: 0 }
+      );
+      return { title: translated.title, content: translated.content + rest };
+    },
+  };
+}
+
+// Self-hosted LibreTranslate server - a local stand-in that needs no API key
+// A language only guessed from its script is left for the server to detect
+function createLibreTranslateTranslator(): Translator {
+  async function translateText(text: string, source: string): Promise<string> {
+    if (!text) return text;
+    const response = await fetch(`${LIBRETRANSLATE_URL}/translate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal: AbortSignal.timeout(TRANSLATION_TIMEOUT_MS),
+      body: JSON.stringify({
+        q: text,
+        source,
+        target: "en",
+        format: "text",
+        api_key: LIBRETRANSLATE_API_KEY,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`LibreTranslate request failed: ${response.status}`);
+    }
+    const data = await response.json();
+    return data.translatedText || text;
+  }
+
+  return {
+    name: "libretranslate",
+    async translate(input, { language, certain }) {
+      const source = certain ? language : "auto";
+      const [title, content] = await Promise.all([
+        translateText(input.title, source),
+        translateText(input.content, source),
+      ]);
+      return { title, content };
+    },
+  };
+}
+
+function createTranslator(): Translator | null {
+  switch (TRANSLATION_PROVIDER) {
+    case "llm":
+    case "openai":
+      return getLLMProvider() ? createLLMTranslator() : null;
+    case "libretranslate":
+      return createLibreTranslateTranslator();
+    default:
+      return null;
+  }
+}
+
+// Created on first use so a provider swapped in with setLLMProvider is seen
+let translator: Translator | null | undefined;
+
+function getTranslator(): Translator | null {
+  if (translator === undefined) {
+    translator = createTranslator();
+  }
+  return translator;
+}
+
+/**
+ * Translate a non-English article into English
+ * Returns null when translation is disabled or fails, so callers carry on with the original text
+ */
+export async function translateToEnglish(
+  input: TranslationInput,
+  detected: DetectedLanguage
+): Promise<TranslationInput | null> {
+  const translator = getTranslator();
+  if (!translator) return null;
+
+  try {
+    return await translator.translate(input, detected);
+  } catch (error) {
+    console.error(`Translation error (${translator.name}):`, error);
+    return null;
+  }
+}
+
+/**
+ * Check if a translation provider is configured
+ */
+export function isTranslationEnabled(): boolean {
+  return !!getTranslator();
+}
@@ -1,5 +1,11 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import {
+  threatLevelScores,
+  type EventCategory,
+  type GeoLocation,
+  type ThreatEvent,
+} from "@/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -24,8 +30,140 @@ export function formatRelativeTime(date: Date | string): string {
   });
 }
 
-export function generateEventId(): string {
-  return `evt_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+// Normalize a URL for deduplication (drop query params, trailing slash, case)
+export function normalizeUrl(url: string): string {
+  return url.split("?")[0].replace(/\/$/, "").toLowerCase();
+}
+
+// 53-bit string hash (cyrb53) - sync and dependency-free so it runs in the browser too
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Stable event ID derived from the article itself
+ * Uses the normalized source URL, falling back to the title and publication day,
+ * so the same article gets the same ID on every fetch, server and export
+ */
+export function generateEventId(article: {
+  sourceUrl?: string;
+  title: string;
+  timestamp?: string;
+}): string {
+  if (article.sourceUrl) {
+    return `evt_${hashString(normalizeUrl(article.sourceUrl))}`;
+  }
+  const title = article.title.toLowerCase().replace(/\s+/g, " ").trim();
+  const day = article.timestamp?.slice(0, 10) || "";
+  return `evt_${hashString(`${title}|${day}`)}`;
+}
+
+// Every category assigned to an event, primary first
+export function getEventCategories(
+  event: Pick<ThreatEvent, "category" | "secondaryCategories">
+): EventCategory[] {
+  return [event.category, ...(event.secondaryCategories || [])];
+}
+
+// 0-100 threat score, falling back to the level's starting score for events stored before scoring
+export function getThreatScore(
+  event: Pick<ThreatEvent, "threatLevel" | "threatScore">
+): number {
+  return event.threatScore?.score ?? threatLevelScores[event.threatLevel];
+}
+
+// Great-circle distance between two points in kilometres
+export function haversineDistanceKm(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Points along the great circle between two [lng, lat] positions
+ * Longitudes are unwrapped so routes across the antimeridian draw as one line
+ */
+export function greatCirclePath(
+  from: [number, number],
+  to: [number, number],
+  segments = 64
+): [number, number][] {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  const [lng1, lat1] = [toRad(from[0]), toRad(from[1])];
+  const [lng2, lat2] = [toRad(to[0]), toRad(to[1])];
+
+  const d =
+    2 *
+    Math.asin(
+      Math.sqrt(
+        Math.sin((lat2 - lat1) / 2) ** 2 +
+          Math.cos(lat1) * Math.cos(lat2) * Math.sin((lng2 - lng1) / 2) ** 2
+      )
+    );
+  if (d === 0) return [from, to];
+
+  const points: [number, number][] = [];
+  for (let i = 0; i <= segments; i++) {
+    const f = i / segments;
+    const a = Math.sin((1 - f) * d) / Math.sin(d);
+    const b = Math.sin(f * d) / Math.sin(d);
+    const x = a * Math.cos(lat1) * Math.cos(lng1) + b * Math.cos(lat2) * Math.cos(lng2);
+    const y = a * Math.cos(lat1) * Math.sin(lng1) + b * Math.cos(lat2) * Math.sin(lng2);
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+    let lng = toDeg(Math.atan2(y, x));
+    const lat = toDeg(Math.atan2(z, Math.sqrt(x * x + y * y)));
+
+    if (points.length > 0) {
+      const previous = points[points.length - 1][0];
+      while (lng - previous > 180) lng -= 360;
+      while (lng - previous < -180) lng += 360;
+    }
+    points.push([lng, lat]);
+  }
+  return points;
+}
+
+/**
+ * Ray-casting test for a [lng, lat] point inside a polygon ring of [lng, lat] vertices
+ */
+export function pointInPolygon(point: [number, number], polygon: [number, number][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Region, country and water-body matches only place an event somewhere in a wide area
+export function isApproximateLocation(location: GeoLocation | undefined): boolean {
+  const precision = location?.precision;
+  return precision === "region" || precision === "country" || precision === "water";
 }
 
 export function debounce<T extends (...args: unknown[]) => unknown>(
@@ -1,10 +1,10 @@
 import { Valyu } from "valyu-js";
+import type { UserInfo } from "./oauth";
 
 let valyuInstance: Valyu | null = null;
 
-const OAUTH_PROXY_URL =
-  process.env.VALYU_OAUTH_PROXY_URL ||
-  `${process.env.VALYU_APP_URL || "https://platform.valyu.ai"}/api/oauth/proxy`;
+const VALYU_APP_URL = process.env.VALYU_APP_URL || "https://platform.valyu.ai";
+const OAUTH_PROXY_URL = process.env.VALYU_OAUTH_PROXY_URL || `${VALYU_APP_URL}/api/oauth/proxy`;
 
 function getValyuClient(): Valyu {
   if (!valyuInstance) {
@@ -86,6 +86,24 @@ async function callViaProxy(
   }
 }
 
+/**
+ * The user an access token belongs to, as the Valyu platform sees it
+ * Returns null when the platform rejects the token
+ */
+export async function getUserInfo(accessToken: string): Promise<UserInfo | null> {
+  const response = await fetch(`${VALYU_APP_URL}/api/oauth/userinfo`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    if (response.status !== 401 && response.status !== 403) {
+      console.error("Error verifying access token:", response.status);
+    }
+    return null;
+  }
+  return response.json();
+}
+
 function parsePublishedDate(dateValue: unknown): string | undefined {
   if (!dateValue) return undefined;
 
@@ -111,12 +129,27 @@ function parsePublishedDate(dateValue: unknown): string | undefined {
   return undefined;
 }
 
+export type SearchFreshness = "day" | "week" | "month";
+
 interface SearchOptions {
   maxResults?: number;
-  freshness?: "day" | "week" | "month";
+  freshness?: SearchFreshness;
   accessToken?: string;
 }
 
+const FRESHNESS_DAYS: Record<SearchFreshness, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+// Earliest publication date (YYYY-MM-DD) to accept for a freshness window
+function getFreshnessStartDate(freshness?: SearchFreshness): string | undefined {
+  if (!freshness) return undefined;
+  const start = new Date(Date.now() - FRESHNESS_DAYS[freshness] * 24 * 60 * 60 * 1000);
+  return start.toISOString().slice(0, 10);
+}
+
 export async function searchEvents(
   query: string,
   options?: SearchOptions
@@ -131,10 +164,12 @@ export async function searchEvents(
   requiresReauth?: boolean;
   requiresCredits?: boolean;
 }> {
+  const startDate = getFreshnessStartDate(options?.freshness);
   const searchBody = {
     query,
     searchType: "news",
     maxNumResults: options?.maxResults || 20,
+    ...(startDate && { startDate }),
   };
 
   if (options?.accessToken) {
@@ -174,6 +209,7 @@ export async function searchEvents(
     const response = await valyu.search(query, {
       searchType: "news",
       maxNumResults: options?.maxResults || 20,
+      startDate,
     });
 
     if (!response.results) {
@@ -0,0 +1,174 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { GeoLocation } from "@/types";
+import { foldPlaceName } from "./gazetteer";
+import { haversineDistanceKm, pointInPolygon } from "./utils";
+
+const WATER_BODIES_FILE =
+  process.env.WATER_BODIES_FILE || path.join(process.cwd(), "config", "water-bodies.json");
+
+const NAME_CONFIDENCE = 0.9;
+const ALIAS_CONFIDENCE = 0.85;
+
+const WaterBodySchema = z.object({
+  name: z.string(),
+  kind: z.enum(["ocean", "sea", "gulf", "bay", "strait", "canal", "port"]),
+  lat: z.number(),
+  lng: z.number(),
+  // Ports and canals sit in one country; open water doesn't
+  country: z.string().optional(),
+  aliases: z.array(z.string()).default([]),
+  // Rough outline as [lng, lat] vertices, for telling which water a point is in
+  polygon: z.array(z.tuple([z.number(), z.number()])).optional(),
+});
+
+const WaterBodiesSchema = z.object({
+  waterBodies: z.array(WaterBodySchema),
+});
+
+type WaterBody = z.infer<typeof WaterBodySchema>;
+
+const CHOKEPOINT_KINDS = new Set<WaterBody["kind"]>(["strait", "canal", "port"]);
+
+interface WaterBodyIndex {
+  byName: Map<string, { body: WaterBody; isAlias: boolean }>;
+  // Outlined bodies, smallest first, so a strait wins over the sea around it
+  outlined: WaterBody[];
+  // Straits, canals and ports: the shipping chokepoints
+  chokepoints: WaterBody[];
+}
+
+// Shoelace area in square degrees - only used to order outlines by size
+function polygonArea(polygon: [number, number][]): number {
+  let area = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    area += (polygon[j][0] + polygon[i][0]) * (polygon[j][1] - polygon[i][1]);
+  }
+  return Math.abs(area / 2);
+}
+
+function buildIndex(): WaterBodyIndex {
+  const index: WaterBodyIndex = { byName: new Map(), outlined: [], chokepoints: [] };
+
+  let bodies: WaterBody[];
+  try {
+    bodies = WaterBodiesSchema.parse(
+      JSON.parse(readFileSync(WATER_BODIES_FILE, "utf-8"))
+    ).waterBodies;
+  } catch (error) {
+    console.error("Error loading water bodies, maritime geocoding is disabled:", error);
+    return index;
+  }
+
+  for (const body of bodies) {
+    for (const [name, isAlias] of [
+      [body.name, false] as const,
+      ...body.aliases.map((alias) => [alias, true] as const),
+    ]) {
+      const key = foldPlaceName(name);
+      if (key && !index.byName.has(key)) {
+        index.byName.set(key, { body, isAlias });
+      }
+    }
+  }
+
+  index.outlined = bodies
+    .filter((body) => body.polygon && body.polygon.length >= 3)
+    .sort((a, b) => polygonArea(a.polygon!) - polygonArea(b.polygon!));
+
+  index.chokepoints = bodies.filter((body) => CHOKEPOINT_KINDS.has(body.kind));
+
+  return index;
+}
+
+// Loaded once per process, like the gazetteer
+let waterBodyIndex: WaterBodyIndex | null = null;
+
+function getIndex(): WaterBodyIndex {
+  waterBodyIndex ??= buildIndex();
+  return waterBodyIndex;
+}
+
+// Article and headline wording often adds "the" or a trailing country ("Port of Aden, Yemen")
+function stripQualifiers(query: string): string[] {
+  const withoutArticle = query.trim().replace(/^the\s+/i, "");
+  return [withoutArticle, withoutArticle.split(",")[0]];
+}
+
+/**
+ * Resolve the name of a sea, strait, gulf, canal or port
+ * Open water is placed at its centroid with "water" precision; ports are a point
+ */
+export function lookupWaterBody(query: string): GeoLocation | null {
+  const index = getIndex();
+
+  for (const candidate of stripQualifiers(query)) {
+    const match = index.byName.get(foldPlaceName(candidate));
+    if (!match) continue;
+
+    const { body, isAlias } = match;
+    return {
+      latitude: body.lat,
+      longitude: body.lng,
+      placeName: body.name,
+      country: body.country,
+      precision: body.kind === "port" ? "point" : "water",
+      confidence: isAlias ? ALIAS_CONFIDENCE : NAME_CONFIDENCE,
+      resolver: "maritime",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Find water body and port names in free text, in order of appearance
+ */
+export function findWaterBodyNames(text: string): string[] {
+  const index = getIndex();
+  const folded = ` ${foldPlaceName(text)} `;
+
+  const found: { name: string; position: number }[] = [];
+  for (const [key, { body }] of index.byName) {
+    const position = folded.indexOf(` ${key} `);
+    if (position >= 0 && !found.some((entry) => entry.name === body.name)) {
+      found.push({ name: body.name, position });
+    }
+  }
+
+  return found.sort((a, b) => a.position - b.position).map((entry) => entry.name);
+}
+
+/**
+ * Name of the outlined water body containing a point, or null if it's on land
+ * or in open ocean without an outline
+ */
+export function findWaterBodyAt(latitude: number, longitude: number): string | null {
+  const body = getIndex().outlined.find((candidate) =>
+    pointInPolygon([longitude, latitude], candidate.polygon!)
+  );
+  return body?.name || null;
+}
+
+/**
+ * The closest strait, canal or port within maxDistanceKm of a point
+ * A point inside a strait's outline is at distance 0
+ */
+export function findNearestChokepoint(
+  latitude: number,
+  longitude: number,
+  maxDistanceKm: number
+): { name: string; distanceKm: number } | null {
+  let nearest: { name: string; distanceKm: number } | null = null;
+  for (const body of getIndex().chokepoints) {
+    const distanceKm =
+      body.polygon && pointInPolygon([longitude, latitude], body.polygon)
+        ? 0
+        : haversineDistanceKm(latitude, longitude, body.lat, body.lng);
+    if (distanceKm <= maxDistanceKm && (!nearest || distanceKm < nearest.distanceKm)) {
+      nearest = { name: body.name, distanceKm };
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,177 @@
+#!/usr/bin/env node
+/**
+ * Build config/country-boundaries.json from Natural Earth GeoJSON (https://www.naturalearthdata.com/)
+ *
+ * Usage: node scripts/build-country-boundaries.mjs <admin0-countries.geojson>
+ *          [--regions <admin1-states-provinces.geojson>] [--tolerance 0.01] [--out config/country-boundaries.json]
+ *
+ * ne_10m_admin_0_countries.geojson or ne_50m_admin_0_countries.geojson give country outlines, and
+ * ne_10m_admin_1_states_provinces.geojson adds first-level regions. Outlines are simplified to
+ * --tolerance degrees (0.01 is about 1km) and rounded to keep the file small. Country names follow
+ * config/gazetteer.json, so reverse geocoding reports the same names ("DRC") the app uses elsewhere.
+ */
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+function parseArgs(argv) {
+  const args = {
+    countries: null,
+    regions: null,
+    tolerance: 0.01,
+    out: path.join(process.cwd(), "config", "country-boundaries.json"),
+  };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--regions") args.regions = argv[++i];
+    else if (argv[i] === "--tolerance") args.tolerance = Number(argv[++i]);
+    else if (argv[i] === "--out") args.out = argv[++i];
+    else args.countries = argv[i];
+  }
+  if (!args.countries || Number.isNaN(args.tolerance)) {
+    console.error(
+      "Usage: node scripts/build-country-boundaries.mjs <countries.geojson> [--regions file] [--tolerance 0.01] [--out file]"
+    );
+    process.exit(1);
+  }
+  return args;
+}
+
+function perpendicularDistance([x, y], [x1, y1], [x2, y2]) {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  if (dx === 0 && dy === 0) return Math.hypot(x - x1, y - y1);
+  return Math.abs(dy * x - dx * y + x2 * y1 - y2 * x1) / Math.hypot(dx, dy);
+}
+
+// Douglas-Peucker, iterative so long coastlines don't overflow the stack
+function simplifyRing(ring, tolerance) {
+  const keep = new Uint8Array(ring.length);
+  keep[0] = keep[ring.length - 1] = 1;
+  const stack = [[0, ring.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop();
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistance(ring[i], ring[start], ring[end]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+  return ring
+    .filter((_, i) => keep[i])
+    .map(([lng, lat]) => [Number(lng.toFixed(3)), Number(lat.toFixed(3))]);
+}
+
+// GeoJSON Polygon or MultiPolygon to a list of polygons, dropping rings simplified to nothing
+function toPolygons(geometry, tolerance) {
+  if (!geometry) return [];
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  const result = [];
+  for (const [outer, ...holes] of polygons) {
+    const simplified = simplifyRing(outer, tolerance);
+    if (simplified.length < 4) continue;
+    result.push([
+      simplified,
+      ...holes.map((hole) => simplifyRing(hole, tolerance)).filter((hole) => hole.length >= 4),
+    ]);
+  }
+  return result;
+}
+
+function boundingBox(polygons) {
+  const bbox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [outer] of polygons) {
+    for (const [lng, lat] of outer) {
+      bbox[0] = Math.min(bbox[0], lng);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lng);
+      bbox[3] = Math.max(bbox[3], lat);
+    }
+  }
+  return bbox;
+}
+
+// Natural Earth marks some codes -99 (France, Norway) and puts the usable one in ISO_A2_EH
+function countryCode(properties) {
+  const code = [properties.ISO_A2, properties.ISO_A2_EH, properties.iso_a2].find(
+    (candidate) => candidate && candidate !== "-99"
+  );
+  return code ? code.toUpperCase() : null;
+}
+
+function readGazetteerNames() {
+  const file = path.join(process.cwd(), "config", "gazetteer.json");
+  if (!existsSync(file)) return new Map();
+  const gazetteer = JSON.parse(readFileSync(file, "utf-8"));
+  return new Map(gazetteer.countries.map((country) => [country.code.toUpperCase(), country.name]));
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const gazetteerNames = readGazetteerNames();
+
+  const countries = new Map();
+  for (const feature of JSON.parse(readFileSync(args.countries, "utf-8")).features) {
+    const code = countryCode(feature.properties);
+    const polygons = toPolygons(feature.geometry, args.tolerance);
+    if (!code || polygons.length === 0) continue;
+
+    // A few countries come as several features; merge them
+    const existing = countries.get(code);
+    if (existing) {
+      existing.polygons.push(...polygons);
+    } else {
+      const name = gazetteerNames.get(code) || feature.properties.NAME || feature.properties.ADMIN;
+      countries.set(code, { code, name, polygons });
+    }
+  }
+
+  const regions = [];
+  if (args.regions) {
+    for (const feature of JSON.parse(readFileSync(args.regions, "utf-8")).features) {
+      const country = countryCode(feature.properties);
+      const polygons = toPolygons(feature.geometry, args.tolerance);
+      if (!country || !countries.has(country) || !feature.properties.name || polygons.length === 0) {
+        continue;
+      }
+      regions.push({ country, name: feature.properties.name, bbox: boundingBox(polygons), polygons });
+    }
+  }
+
+  const countryList = [...countries.values()].map((country) => ({
+    code: country.code,
+    name: country.name,
+    bbox: boundingBox(country.polygons),
+    polygons: country.polygons,
+  }));
+
+  const source = [path.basename(args.countries), args.regions && path.basename(args.regions)]
+    .filter(Boolean)
+    .join(", ");
+  const lines = [
+    "{",
+    `  "source": ${JSON.stringify(`Natural Earth ${source}, simplified to ${args.tolerance} degrees`)},`,
+    '  "countries": [',
+    countryList.map((country) => `    ${JSON.stringify(country)}`).join(",\n"),
+    "  ],",
+    '  "regions": [',
+    regions.map((region) => `    ${JSON.stringify(region)}`).join(",\n"),
+    "  ]",
+    "}",
+  ];
+  writeFileSync(args.out, `${lines.join("\n")}\n`);
+  console.log(`Wrote ${countryList.length} countries and ${regions.length} regions to ${args.out}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("Error building country boundaries:", error);
+  process.exit(1);
+}
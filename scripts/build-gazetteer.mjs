@@ -0,0 +1,292 @@
+#!/usr/bin/env node
+/**
+ * Build config/gazetteer.json from a GeoNames dump (https://download.geonames.org/export/dump/)
+ *
+ * Usage: node scripts/build-gazetteer.mjs <dump-dir> [--min-population 15000] [--common-words words.txt] [--out config/gazetteer.json]
+ *
+ * The dump directory needs:
+ *   cities15000.txt (or cities5000.txt, cities1000.txt, ...)
+ *   admin1CodesASCII.txt
+ *   countryInfo.txt
+ * and optionally allCountries.txt, which supplies country and admin region centroids.
+ * Without it, countries keep the coordinates already in the output file (or fall back to
+ * their capital, or the population-weighted centre of their cities) and regions sit at the
+ * population-weighted centre of their cities.
+ *
+ * --common-words takes an English word list, one word per line (SCOWL's, or /usr/share/dict/words).
+ * Alternate names that are ordinary words ("The", "City") are dropped, and place names that are
+ * ("Police", "Nice") are listed so lib/gazetteer.ts won't read them as places in free text.
+ * Without it, the list already in the output file is used.
+ */
+import { createReadStream, existsSync, readFileSync, readdirSync, writeFileSync } from "fs";
+import path from "path";
+import readline from "readline";
+
+// Alternate names per place - GeoNames lists hundreds for major cities
+const MAX_ALIASES = 25;
+
+// Names of groups and languages that GeoNames also files as some town's alternate name ("Hamas" for Hamm)
+const NON_PLACE_NAMES = new Set([
+  "hamas", "hezbollah", "taliban", "houthi", "houthis", "wagner", "isis", "daesh", "al shabaab",
+  "hindi", "urdu", "arabic", "farsi", "hebrew", "kartuli", "hayeren",
+]);
+
+function parseArgs(argv) {
+  const args = {
+    dir: null,
+    minPopulation: 15000,
+    commonWords: null,
+    out: path.join(process.cwd(), "config", "gazetteer.json"),
+  };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--min-population") args.minPopulation = Number(argv[++i]);
+    else if (argv[i] === "--common-words") args.commonWords = argv[++i];
+    else if (argv[i] === "--out") args.out = argv[++i];
+    else args.dir = argv[i];
+  }
+  if (!args.dir || Number.isNaN(args.minPopulation)) {
+    console.error(
+      "Usage: node scripts/build-gazetteer.mjs <dump-dir> [--min-population 15000] [--common-words file] [--out file]"
+    );
+    process.exit(1);
+  }
+  return args;
+}
+
+async function* readRows(file) {
+  const lines = readline.createInterface({ input: createReadStream(file, "utf-8"), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line && !line.startsWith("#")) yield line.split("\t");
+  }
+}
+
+// Keep names that are readable, short enough to appear in a headline, and used for the place.
+// All-caps ones are airport and postal codes ("THE"), and ones with no capital letter in a script
+// that has them are romanisations and language names ("te lei xi na", "hindi")
+function isPlaceAlias(alias, isCommonWord) {
+  const folded = foldName(alias);
+  const hasCase = alias.toLowerCase() !== alias.toUpperCase();
+  return (
+    alias.length > 0 &&
+    alias.length <= 40 &&
+    !/^\p{Lu}{2,4}$/u.test(alias) &&
+    !(hasCase && alias === alias.toLowerCase()) &&
+    !isCommonWord(folded) &&
+    !NON_PLACE_NAMES.has(folded)
+  );
+}
+
+function pickAliases(row, name, isCommonWord) {
+  const names = [row[2], ...(row[3] ? row[3].split(",") : [])]
+    .map((alias) => alias.trim())
+    .filter((alias) => alias !== name && isPlaceAlias(alias, isCommonWord));
+  return [...new Set(names)].slice(0, MAX_ALIASES);
+}
+
+// Lower-case words only - capitalised entries in a word list are proper nouns ("Paris")
+function readCommonWords(file) {
+  return new Set(
+    readFileSync(file, "utf-8")
+      .split(/\r?\n/)
+      .map((word) => word.trim())
+      .filter((word) => word && word === word.toLowerCase())
+      .map(foldName)
+  );
+}
+
+// Lookup key for comparing names, folded the way lib/gazetteer.ts does for Latin script
+function foldName(name) {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .replace(/\bsaint\b/g, "st")
+    .trim();
+}
+
+function readExisting(file) {
+  if (!existsSync(file)) return { commonWords: [], countries: [], places: [] };
+  return JSON.parse(readFileSync(file, "utf-8"));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const citiesFile = readdirSync(args.dir)
+    .filter((file) => /^cities\d+\.txt$/.test(file))
+    .map((file) => path.join(args.dir, file))[0];
+  if (!citiesFile) {
+    console.error(`No citiesNNNN.txt file in ${args.dir}`);
+    process.exit(1);
+  }
+
+  const existing = readExisting(args.out);
+  const commonWords = args.commonWords
+    ? readCommonWords(args.commonWords)
+    : new Set(existing.commonWords || []);
+  // The words that turn up as a name or alternate name, which is all a rebuild without the list needs
+  const listedWords = new Set();
+  const isCommonWord = (key) => commonWords.has(key) && !!listedWords.add(key);
+  const existingCountries = new Map(existing.countries.map((country) => [country.code, country]));
+
+  // countryInfo.txt: ISO, ISO3, ISO-Numeric, fips, Country, Capital, ...
+  const countries = new Map();
+  for await (const row of readRows(path.join(args.dir, "countryInfo.txt"))) {
+    const previous = existingCountries.get(row[0]);
+    // Keep the display name the app already uses ("DRC", "Palestine") and file GeoNames' under aliases
+    const name = previous?.name || row[4];
+    countries.set(row[0], {
+      code: row[0],
+      name,
+      lat: previous?.lat,
+      lng: previous?.lng,
+      capital: foldName(row[5]),
+      // Population-weighted centre of its cities, for countries whose capital isn't in the file
+      cityLat: 0,
+      cityLng: 0,
+      cityWeight: 0,
+      aliases: [...new Set([...(previous?.aliases || []), row[4]])].filter((alias) => alias !== name),
+    });
+  }
+
+  // admin1CodesASCII.txt: CC.code, name, ascii name, geonameid
+  const regions = new Map();
+  for await (const row of readRows(path.join(args.dir, "admin1CodesASCII.txt"))) {
+    const [country] = row[0].split(".");
+    regions.set(row[0], { name: row[1], country, ascii: row[2], lat: 0, lng: 0, weight: 0, fixed: false });
+  }
+
+  // allCountries.txt rows for whole countries (PCLI) and first-level regions (ADM1)
+  const allCountriesFile = path.join(args.dir, "allCountries.txt");
+  if (existsSync(allCountriesFile)) {
+    for await (const row of readRows(allCountriesFile)) {
+      if (row[6] !== "A") continue;
+      const lat = Number(row[4]);
+      const lng = Number(row[5]);
+      if (row[7] === "PCLI" && countries.has(row[8])) {
+        Object.assign(countries.get(row[8]), { lat, lng });
+      } else if (row[7] === "ADM1" && regions.has(`${row[8]}.${row[10]}`)) {
+        Object.assign(regions.get(`${row[8]}.${row[10]}`), { lat, lng, fixed: true });
+      }
+    }
+  }
+
+  // cities file: geonameid, name, asciiname, alternatenames, lat, lng, class, code, country, cc2, admin1, ..., population
+  const places = [];
+  for await (const row of readRows(citiesFile)) {
+    const population = Number(row[14]) || 0;
+    if (population < args.minPopulation) continue;
+
+    const lat = Number(row[4]);
+    const lng = Number(row[5]);
+    const region = regions.get(`${row[8]}.${row[10]}`);
+    if (region && !region.fixed) {
+      region.lat += lat * population;
+      region.lng += lng * population;
+      region.weight += population;
+    }
+
+    const country = countries.get(row[8]);
+    if (country && country.lat === undefined) {
+      // countryInfo spells capitals without accents ("Yaounde" for Yaoundé)
+      if (foldName(row[1]) === country.capital || foldName(row[2]) === country.capital) {
+        Object.assign(country, { lat, lng });
+      } else {
+        country.cityLat += lat * population;
+        country.cityLng += lng * population;
+        country.cityWeight += population;
+      }
+    }
+
+    places.push({
+      name: row[1],
+      kind: "city",
+      country: row[8],
+      ...(region && { admin1: region.name }),
+      lat,
+      lng,
+      population,
+      aliases: pickAliases(row, row[1], isCommonWord),
+    });
+  }
+
+  for (const region of regions.values()) {
+    if (!region.fixed) {
+      // No cities and no ADM1 row to place it
+      if (region.weight === 0) continue;
+      region.lat /= region.weight;
+      region.lng /= region.weight;
+    }
+    places.push({
+      name: region.name,
+      kind: "region",
+      country: region.country,
+      lat: Number(region.lat.toFixed(4)),
+      lng: Number(region.lng.toFixed(4)),
+      aliases:
+        region.ascii !== region.name && isPlaceAlias(region.ascii, isCommonWord) ? [region.ascii] : [],
+    });
+  }
+
+  // Hand-added entries (e.g. Donbas, which is not an admin region) survive a rebuild.
+  // A city GeoNames knows only by an alternate name keeps the name the app already uses ("Kyiv", not "Kiev"),
+  // and one GeoNames files under another code (Hong Kong) is left to GeoNames
+  const builtNames = new Set(places.map((place) => `${place.country}|${foldName(place.name)}`));
+  const builtCityNames = new Set(
+    places.filter((place) => place.kind === "city").map((place) => foldName(place.name))
+  );
+  for (const place of existing.places) {
+    if (builtNames.has(`${place.country}|${foldName(place.name)}`)) continue;
+    const renamed =
+      place.kind === "city" &&
+      places.find(
+        (built) =>
+          built.kind === "city" &&
+          built.country === place.country &&
+          (built.aliases.some((alias) => foldName(alias) === foldName(place.name)) ||
+            (place.aliases || []).some((alias) => foldName(alias) === foldName(built.name)))
+      );
+    if (renamed) {
+      renamed.aliases = [
+        ...new Set([renamed.name, ...(place.aliases || []), ...renamed.aliases]),
+      ].filter((alias) => alias !== place.name);
+      renamed.name = place.name;
+    } else if (place.kind !== "city" || !builtCityNames.has(foldName(place.name))) {
+      places.push(place);
+    }
+  }
+
+  const countryList = [...countries.values()]
+    .map(({ capital: _capital, cityLat, cityLng, cityWeight, ...country }) =>
+      country.lat === undefined && cityWeight > 0
+        ? {
+            ...country,
+            lat: Number((cityLat / cityWeight).toFixed(4)),
+            lng: Number((cityLng / cityWeight).toFixed(4)),
+          }
+        : country
+    )
+    .filter((country) => country.lat !== undefined);
+
+  places.forEach((place) => isCommonWord(foldName(place.name)));
+
+  const lines = [
+    "{",
+    `  "source": ${JSON.stringify(`GeoNames ${path.basename(citiesFile)}, population >= ${args.minPopulation}`)},`,
+    `  "commonWords": ${JSON.stringify([...listedWords].sort())},`,
+    '  "countries": [',
+    countryList.map((country) => `    ${JSON.stringify(country)}`).join(",\n"),
+    "  ],",
+    '  "places": [',
+    places.map((place) => `    ${JSON.stringify(place)}`).join(",\n"),
+    "  ]",
+    "}",
+  ];
+  writeFileSync(args.out, `${lines.join("\n")}\n`);
+  console.log(`Wrote ${countryList.length} countries and ${places.length} places to ${args.out}`);
+}
+
+main().catch((error) => {
+  console.error("Error building gazetteer:", error);
+  process.exit(1);
+});
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+/**
+ * Score the keyword and AI classifiers against the labeled corpus in fixtures/classifier
+ *
+ * Usage: node scripts/evaluate-classifier.mjs [--classifier keyword|ai|both] [--corpus file]
+ *          [--responses file] [--record] [--json]
+ *
+ * Runs offline: the AI classifier is the fake LLM provider answering from --responses (replies in
+ * the LLM_FAKE_RESPONSES format), and geocoding uses only the offline gazetteer and water bodies.
+ * --record instead sends the corpus once to the real provider LLM_PROVIDER configures, scores its
+ * answers and writes them to --responses, so later runs replay that model offline. Reports per-category precision/recall, a confusion matrix, threat level accuracy
+ * and geocoding distance error. The classifier is TypeScript, so the modules it needs are
+ * transpiled into node_modules/.cache first with the project's own TypeScript compiler.
+ */
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import ts from "typescript";
+
+const ROOT = process.cwd();
+const OUT_DIR = path.join(ROOT, "node_modules", ".cache", "evaluate-classifier");
+const ENTRY = path.join(ROOT, "lib", "classifier-evaluation.ts");
+
+function parseArgs(argv) {
+  const args = {
+    classifier: "both",
+    corpus: path.join(ROOT, "fixtures", "classifier", "corpus.json"),
+    responses: path.join(ROOT, "fixtures", "classifier", "llm-responses.json"),
+    record: false,
+    json: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--classifier") args.classifier = argv[++i];
+    else if (argv[i] === "--corpus") args.corpus = argv[++i];
+    else if (argv[i] === "--responses") args.responses = argv[++i];
+    else if (argv[i] === "--record") args.record = true;
+    else if (argv[i] === "--json") args.json = true;
+  }
+  if (
+    !["keyword", "ai", "both"].includes(args.classifier) ||
+    (args.record && args.classifier === "keyword")
+  ) {
+    console.error(
+      "Usage: node scripts/evaluate-classifier.mjs [--classifier keyword|ai|both] [--corpus file] [--responses file] [--record] [--json]"
+    );
+    process.exit(1);
+  }
+  return args;
+}
+
+// "@/lib/x" or "./x" to the .ts file it names
+function resolveSource(specifier, fromFile) {
+  if (!specifier.startsWith("@/") && !specifier.startsWith(".")) return null;
+  const base = specifier.startsWith("@/")
+    ? path.join(ROOT, specifier.slice(2))
+    : path.resolve(path.dirname(fromFile), specifier);
+  return [`${base}.ts`, path.join(base, "index.ts")].find((file) => existsSync(file)) || null;
+}
+
+// Transpile the entry and every project module it imports, rewriting imports to the emitted files
+function compile(entry) {
+  const pending = [entry];
+  const done = new Set();
+  const outFile = (source) => path.join(OUT_DIR, path.relative(ROOT, source)).replace(/\.ts$/, ".mjs");
+
+  while (pending.length > 0) {
+    const source = pending.pop();
+    if (done.has(source)) continue;
+    done.add(source);
+
+    const { outputText } = ts.transpileModule(readFileSync(source, "utf-8"), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      fileName: source,
+    });
+    const output = outputText.replace(
+      /(\bfrom\s*|\bimport\s*\(?\s*)(["'])([^"']+)\2/g,
+      (match, prefix, quote, specifier) => {
+        const resolved = resolveSource(specifier, source);
+        if (!resolved) return match;
+        pending.push(resolved);
+        let relative = path.relative(path.dirname(outFile(source)), outFile(resolved));
+        if (!relative.startsWith(".")) relative = `./${relative}`;
+        return `${prefix}${quote}${relative}${quote}`;
+      }
+    );
+
+    mkdirSync(path.dirname(outFile(source)), { recursive: true });
+    writeFileSync(outFile(source), output);
+  }
+  return outFile(entry);
+}
+
+// Pass calls through to the real provider, keeping each reply under the title of the article it was
+// for: with one article per prompt, that is what the fake responder matches on when replaying
+function recordReplies(provider, fixtures, recorded) {
+  const keep = (messages, key, response) => {
+    const prompt =
+      messages.filter((message) => message.role === "user").pop()?.content.toLowerCase() || "";
+    const fixture = fixtures.find((candidate) => prompt.includes(candidate.title.toLowerCase()));
+    if (fixture) (recorded[key] ||= []).push({ match: fixture.title, response });
+    return response;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    complete: async (messages, options) =>
+      keep(messages, "text", await provider.complete(messages, options)),
+    completeStructured: async (messages, schema, schemaName, options) =>
+      keep(messages, schemaName, await provider.completeStructured(messages, schema, schemaName, options)),
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Set before the modules load: they read their configuration once, at import.
+  // No Mapbox keeps geocoding offline, and a scratch data directory keeps the caches out of it
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), "evaluate-classifier-"));
+  Object.assign(process.env, {
+    NEXT_PUBLIC_MAPBOX_TOKEN: "",
+    ...(!args.record && { LLM_PROVIDER: "none" }),
+    CLASSIFICATION_BATCH_SIZE: "1",
+    DATA_DIR: dataDir,
+  });
+
+  rmSync(OUT_DIR, { recursive: true, force: true });
+  const evaluation = await import(pathToFileURL(compile(ENTRY)).href);
+  const llm = await import(pathToFileURL(path.join(OUT_DIR, "lib", "llm.mjs")).href);
+
+  const fixtures = evaluation.loadEvaluationCorpus(args.corpus);
+  const reports = [];
+
+  if (args.classifier !== "ai") {
+    llm.setLLMProvider(null);
+    reports.push(await evaluation.evaluateClassifier("keyword", fixtures));
+  }
+  if (args.classifier !== "keyword" && args.record) {
+    const provider = llm.createProvider();
+    if (!provider) {
+      throw new Error("--record needs a real LLM provider: set LLM_PROVIDER and its API key");
+    }
+    const recorded = {};
+    llm.setLLMProvider(recordReplies(provider, fixtures, recorded));
+    reports.push(
+      await evaluation.evaluateClassifier(`ai (${provider.name}:${provider.model}, recording)`, fixtures)
+    );
+    writeFileSync(args.responses, `${JSON.stringify(recorded, null, 2)}\n`);
+    console.error(`Recorded ${provider.name}:${provider.model} replies to ${path.relative(ROOT, args.responses)}`);
+  } else if (args.classifier !== "keyword") {
+    llm.setLLMProvider(llm.createFakeProvider(llm.createFakeResponder(args.responses)));
+    reports.push(
+      await evaluation.evaluateClassifier(`ai (${path.relative(ROOT, args.responses)})`, fixtures)
+    );
+  }
+
+  rmSync(dataDir, { recursive: true, force: true });
+
+  if (args.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    console.log(reports.map(evaluation.formatEvaluationReport).join("\n\n"));
+  }
+}
+
+main().catch((error) => {
+  console.error("Error evaluating classifier:", error);
+  process.exit(1);
+});
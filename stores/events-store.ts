@@ -1,36 +1,56 @@
 import { create } from "zustand";
-import type { ThreatEvent, TimeRange } from "@/types";
+import type { ImpactCountField, ThreatEvent, TimeRange } from "@/types";
+import { getEventCategories, getThreatScore } from "@/lib/utils";
 
-// Threat level priority for sorting (lower = higher priority)
-const THREAT_LEVEL_PRIORITY: Record<string, number> = {
-  critical: 0,
-  high: 1,
-  medium: 2,
-  low: 3,
-  info: 4,
-};
+// "Reliable sources only" keeps wire services and national outlets (tiers 1-2)
+export const RELIABLE_SOURCE_RANK = 2;
+
+// Feed order: threat score (then recency), or the largest reported figure first
+export type EventSortKey = "threat" | ImpactCountField;
+
+// Upper bound on events held in browser memory - older history is paged from the server
+const MAX_EVENTS = 5000;
+
+// Merge two event lists, keeping the first copy of any duplicated ID
+function mergeEvents(first: ThreatEvent[], second: ThreatEvent[]): ThreatEvent[] {
+  const seen = new Set<string>();
+  return [...first, ...second].filter((event) => {
+    if (seen.has(event.id)) return false;
+    seen.add(event.id);
+    return true;
+  });
+}
 
 interface EventsState {
   events: ThreatEvent[];
   filteredEvents: ThreatEvent[];
   selectedEvent: ThreatEvent | null;
+  newEventIds: string[];
   isLoading: boolean;
   error: string | null;
   timeRange: TimeRange | null;
   categoryFilters: string[];
   threatLevelFilters: string[];
+  reliableSourcesOnly: boolean;
+  hideCountryLevel: boolean;
   searchQuery: string;
+  sortBy: EventSortKey;
 
   setEvents: (events: ThreatEvent[]) => void;
   addEvent: (event: ThreatEvent) => void;
-  addEvents: (events: ThreatEvent[]) => void;
+  addEvents: (events: ThreatEvent[], options?: { markNew?: boolean }) => void;
+  appendEvents: (events: ThreatEvent[]) => void;
+  updateEvent: (event: ThreatEvent) => void;
   selectEvent: (event: ThreatEvent | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   setTimeRange: (range: TimeRange | null) => void;
   setCategoryFilters: (categories: string[]) => void;
   setThreatLevelFilters: (levels: string[]) => void;
+  setReliableSourcesOnly: (enabled: boolean) => void;
+  setHideCountryLevel: (enabled: boolean) => void;
   setSearchQuery: (query: string) => void;
+  setSortBy: (sortBy: EventSortKey) => void;
   applyFilters: () => void;
   clearFilters: () => void;
 }
@@ -39,33 +59,69 @@ export const useEventsStore = create<EventsState>((set, get) => ({
   events: [],
   filteredEvents: [],
   selectedEvent: null,
+  newEventIds: [],
   isLoading: false,
   error: null,
   timeRange: null,
   categoryFilters: [],
   threatLevelFilters: [],
+  reliableSourcesOnly: false,
+  hideCountryLevel: false,
   searchQuery: "",
+  sortBy: "threat",
 
   setEvents: (events) => {
-    set({ events });
+    set({ events, newEventIds: [] });
     get().applyFilters();
   },
 
   addEvent: (event) => {
     set((state) => ({
-      events: [event, ...state.events].slice(0, 1000),
+      events: mergeEvents([event], state.events).slice(0, MAX_EVENTS),
     }));
     get().applyFilters();
   },
 
-  addEvents: (events) => {
+  // Incoming copies replace stored ones, so updated events keep their place and selection
+  addEvents: (events, options) => {
+    set((state) => {
+      const selectedUpdate = state.selectedEvent
+        ? events.find((event) => event.id === state.selectedEvent?.id)
+        : undefined;
+      return {
+        events: mergeEvents(events, state.events).slice(0, MAX_EVENTS),
+        selectedEvent: selectedUpdate || state.selectedEvent,
+        newEventIds: options?.markNew
+          ? [...new Set([...events.map((event) => event.id), ...state.newEventIds])]
+          : state.newEventIds,
+      };
+    });
+    get().applyFilters();
+  },
+
+  appendEvents: (events) => {
     set((state) => ({
-      events: [...events, ...state.events].slice(0, 1000),
+      events: mergeEvents(state.events, events).slice(0, MAX_EVENTS),
     }));
     get().applyFilters();
   },
 
-  selectEvent: (event) => set({ selectedEvent: event }),
+  // Swap in an edited copy where the event already is
+  updateEvent: (event) => {
+    set((state) => ({
+      events: state.events.map((existing) => (existing.id === event.id ? event : existing)),
+      selectedEvent: state.selectedEvent?.id === event.id ? event : state.selectedEvent,
+    }));
+    get().applyFilters();
+  },
+
+  selectEvent: (event) =>
+    set((state) => ({
+      selectedEvent: event,
+      newEventIds: event
+        ? state.newEventIds.filter((id) => id !== event.id)
+        : state.newEventIds,
+    })),
 
   setLoading: (isLoading) => set({ isLoading }),
 
@@ -86,18 +142,36 @@ export const useEventsStore = create<EventsState>((set, get) => ({
     get().applyFilters();
   },
 
+  setReliableSourcesOnly: (reliableSourcesOnly) => {
+    set({ reliableSourcesOnly });
+    get().applyFilters();
+  },
+
+  setHideCountryLevel: (hideCountryLevel) => {
+    set({ hideCountryLevel });
+    get().applyFilters();
+  },
+
   setSearchQuery: (searchQuery) => {
     set({ searchQuery });
     get().applyFilters();
   },
 
+  setSortBy: (sortBy) => {
+    set({ sortBy });
+    get().applyFilters();
+  },
+
   applyFilters: () => {
     const {
       events,
       timeRange,
       categoryFilters,
       threatLevelFilters,
+      reliableSourcesOnly,
+      hideCountryLevel,
       searchQuery,
+      sortBy,
     } = get();
 
     let filtered = [...events];
@@ -110,8 +184,9 @@ export const useEventsStore = create<EventsState>((set, get) => ({
     }
 
     if (categoryFilters.length > 0) {
+      // An event matches on its primary or any secondary category
       filtered = filtered.filter((event) =>
-        categoryFilters.includes(event.category)
+        getEventCategories(event).some((category) => categoryFilters.includes(category))
       );
     }
 
@@ -121,6 +196,18 @@ export const useEventsStore = create<EventsState>((set, get) => ({
       );
     }
 
+    // Events stored before credibility scoring count as unknown
+    if (reliableSourcesOnly) {
+      filtered = filtered.filter(
+        (event) => (event.sourceReliability?.rank ?? 5) <= RELIABLE_SOURCE_RANK
+      );
+    }
+
+    // Drops events placed only at a country's centroid
+    if (hideCountryLevel) {
+      filtered = filtered.filter((event) => event.location.precision !== "country");
+    }
+
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(
@@ -132,14 +219,22 @@ export const useEventsStore = create<EventsState>((set, get) => ({
       );
     }
 
-    // Sort by threat level first (critical -> high -> medium -> low -> info), then by date
+    // Sort by threat score (highest first), then by date
+    // When sorting by a figure, events without one fall back to that order below those with it
     filtered.sort((a, b) => {
-      const priorityA = THREAT_LEVEL_PRIORITY[a.threatLevel] ?? 5;
-      const priorityB = THREAT_LEVEL_PRIORITY[b.threatLevel] ?? 5;
-      if (priorityA !== priorityB) {
-        return priorityA - priorityB;
+      if (sortBy !== "threat") {
+        const figureA = a.impact?.[sortBy] ?? -1;
+        const figureB = b.impact?.[sortBy] ?? -1;
+        if (figureA !== figureB) {
+          return figureB - figureA;
+        }
+      }
+      const scoreA = getThreatScore(a);
+      const scoreB = getThreatScore(b);
+      if (scoreA !== scoreB) {
+        return scoreB - scoreA;
       }
-      // Within same threat level, sort by date (most recent first)
+      // Within the same score, sort by date (most recent first)
       const dateA = new Date(a.timestamp).getTime();
       const dateB = new Date(b.timestamp).getTime();
       return dateB - dateA;
@@ -153,6 +248,8 @@ export const useEventsStore = create<EventsState>((set, get) => ({
       timeRange: null,
       categoryFilters: [],
       threatLevelFilters: [],
+      reliableSourcesOnly: false,
+      hideCountryLevel: false,
       searchQuery: "",
     });
     get().applyFilters();
@@ -19,6 +19,7 @@ interface MapState {
   showClusters: boolean;
   showWatchboxes: boolean;
   showMilitaryBases: boolean;
+  showArcs: boolean;
   isDrawingWatchbox: boolean;
   activeWatchboxId: string | null;
   isAutoPlaying: boolean;
@@ -32,6 +33,7 @@ interface MapState {
   toggleClusters: () => void;
   toggleWatchboxes: () => void;
   toggleMilitaryBases: () => void;
+  toggleArcs: () => void;
   startDrawingWatchbox: () => void;
   stopDrawingWatchbox: () => void;
   setActiveWatchbox: (id: string | null) => void;
@@ -57,6 +59,7 @@ export const useMapStore = create<MapState>((set) => ({
   showClusters: true,
   showWatchboxes: true,
   showMilitaryBases: true,
+  showArcs: true,
   isDrawingWatchbox: false,
   activeWatchboxId: null,
   isAutoPlaying: false,
@@ -99,6 +102,11 @@ export const useMapStore = create<MapState>((set) => ({
       showMilitaryBases: !state.showMilitaryBases,
     })),
 
+  toggleArcs: () =>
+    set((state) => ({
+      showArcs: !state.showArcs,
+    })),
+
   startDrawingWatchbox: () => set({ isDrawingWatchbox: true }),
 
   stopDrawingWatchbox: () => set({ isDrawingWatchbox: false }),
@@ -0,0 +1,30 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+
+interface QueryPacksState {
+  // Empty means the server's default pack
+  selectedPackIds: string[];
+  togglePack: (id: string) => void;
+  setSelectedPacks: (ids: string[]) => void;
+}
+
+export const useQueryPacksStore = create<QueryPacksState>()(
+  persist(
+    (set) => ({
+      selectedPackIds: [],
+
+      togglePack: (id) =>
+        set((state) => ({
+          selectedPackIds: state.selectedPackIds.includes(id)
+            ? state.selectedPackIds.filter((packId) => packId !== id)
+            : [...state.selectedPackIds, id],
+        })),
+
+      setSelectedPacks: (ids) => set({ selectedPackIds: ids }),
+    }),
+    {
+      name: "query-packs",
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -21,31 +21,180 @@ export const EventCategory = z.enum([
 ]);
 export type EventCategory = z.infer<typeof EventCategory>;
 
+// How exact a resolved location is, from a specific spot down to a whole country
+export const LocationPrecision = z.enum(["point", "city", "region", "country", "water"]);
+export type LocationPrecision = z.infer<typeof LocationPrecision>;
+
 export const GeoLocation = z.object({
   latitude: z.number(),
   longitude: z.number(),
   placeName: z.string().optional(),
   country: z.string().optional(),
   region: z.string().optional(),
+  precision: LocationPrecision.optional(),
+  // 0-1: how sure we are this is the right place
+  confidence: z.number().min(0).max(1).optional(),
+  // Which lookup produced the coordinates
+  resolver: z.enum(["coordinates", "gazetteer", "maritime", "mapbox"]).optional(),
+  // Set when the coordinates fell in a different country from the one the event was reported in
+  countryMismatch: z.object({ stated: z.string(), actual: z.string() }).optional(),
 });
 export type GeoLocation = z.infer<typeof GeoLocation>;
 
+// Where a place sits in an event: where it came from, where it was aimed, or who else it hit
+export const LocationRole = z.enum(["origin", "target", "affected"]);
+export type LocationRole = z.infer<typeof LocationRole>;
+
+export const EventLocation = z.object({
+  role: LocationRole,
+  location: GeoLocation,
+});
+export type EventLocation = z.infer<typeof EventLocation>;
+
+export const IncidentSource = z.object({
+  title: z.string(),
+  source: z.string(),
+  sourceUrl: z.string().url().optional(),
+  timestamp: z.string().datetime(),
+});
+export type IncidentSource = z.infer<typeof IncidentSource>;
+
+// Human and material toll reported for an event; fields are only set when the article gives a figure
+export const EventImpact = z.object({
+  killed: z.number().int().nonnegative().optional(),
+  injured: z.number().int().nonnegative().optional(),
+  displaced: z.number().int().nonnegative().optional(),
+  arrested: z.number().int().nonnegative().optional(),
+  // Damaged or disrupted infrastructure, e.g. "power grid", "hospital"
+  infrastructure: z.array(z.string()).optional(),
+});
+export type EventImpact = z.infer<typeof EventImpact>;
+
+export const IMPACT_COUNT_FIELDS = ["killed", "injured", "displaced", "arrested"] as const;
+export type ImpactCountField = (typeof IMPACT_COUNT_FIELDS)[number];
+
+// What an event looked like before a later report changed it
+export const EventRevision = z.object({
+  // When these values were recorded (the event's updatedAt at the time)
+  recordedAt: z.string().datetime(),
+  threatLevel: ThreatLevel,
+  title: z.string(),
+  summary: z.string(),
+});
+export type EventRevision = z.infer<typeof EventRevision>;
+
+// Credibility tiers, most to least reliable
+export const SourceTier = z.enum([
+  "wire",
+  "national",
+  "state-media",
+  "blog",
+  "unknown",
+]);
+export type SourceTier = z.infer<typeof SourceTier>;
+
+export const SourceReliability = z.object({
+  // Best tier among the incident's sources
+  tier: SourceTier,
+  // 1 (wire) to 5 (unknown)
+  rank: z.number().int().min(1).max(5),
+  // Distinct outlets reporting the incident
+  outletCount: z.number().int().nonnegative(),
+  // Scored down because the event rests on one low-credibility source
+  discounted: z.boolean().optional(),
+});
+export type SourceReliability = z.infer<typeof SourceReliability>;
+
+// 0-100 ranking within and across threat levels; the event's threat level is derived from it
+export const ThreatScore = z.object({
+  score: z.number().min(0).max(100),
+  // The level the classifier assigned, which the score starts from
+  classifiedLevel: ThreatLevel,
+  // Points each factor added or took away
+  factors: z.object({
+    severity: z.number(),
+    casualties: z.number(),
+    assets: z.number(),
+    corroboration: z.number(),
+    // Changes as the report ages, so it is never stored and only added when events are read
+    recency: z.number().optional(),
+  }),
+  // One line explaining the score, e.g. "Classified high (+65); 4 killed (+4); ..."
+  rationale: z.string(),
+});
+export type ThreatScore = z.infer<typeof ThreatScore>;
+
+// Classification fields an analyst can correct
+export const OverrideField = z.enum(["category", "threatLevel", "location"]);
+export type OverrideField = z.infer<typeof OverrideField>;
+
 export const ThreatEvent = z.object({
   id: z.string(),
   title: z.string(),
   summary: z.string(),
   category: EventCategory,
+  // Other categories that also apply, e.g. infrastructure for a cyberattack on a power grid
+  secondaryCategories: z.array(EventCategory).optional(),
   threatLevel: ThreatLevel,
+  threatScore: ThreatScore.optional(),
   location: GeoLocation,
+  // Places with distinct roles, e.g. a missile launched from one country at a ship elsewhere
+  locations: z.array(EventLocation).optional(),
   timestamp: z.string().datetime(),
   source: z.string(),
   sourceUrl: z.string().url().optional(),
   entities: z.array(z.string()).optional(),
   keywords: z.array(z.string()).optional(),
   rawContent: z.string().optional(),
+  impact: EventImpact.optional(),
+  // Every report clustered into this incident, including the one shown
+  sources: z.array(IncidentSource).optional(),
+  sourceReliability: SourceReliability.optional(),
+  // When the server first stored this event, and when its content last changed
+  firstSeenAt: z.string().datetime().optional(),
+  updatedAt: z.string().datetime().optional(),
+  // ISO 639-1 code of the source article ("und" when it couldn't be detected)
+  language: z.string().optional(),
+  // The untranslated headline and summary, when title and summary were machine-translated
+  originalText: z
+    .object({
+      title: z.string(),
+      summary: z.string(),
+    })
+    .optional(),
+  // Earlier threat levels and summaries, oldest first
+  revisions: z.array(EventRevision).optional(),
+  // Fields an analyst corrected; later reports don't change them
+  overriddenFields: z.array(OverrideField).optional(),
 });
 export type ThreatEvent = z.infer<typeof ThreatEvent>;
 
+// An analyst's correction to an event's classification, kept by event ID
+// Unset fields keep what the classifier said
+export const ClassificationOverride = z.object({
+  eventId: z.string(),
+  category: EventCategory.optional(),
+  threatLevel: ThreatLevel.optional(),
+  location: GeoLocation.optional(),
+  // What the classifier said, to restore when the override is removed and to learn from
+  original: z.object({
+    category: EventCategory,
+    secondaryCategories: z.array(EventCategory).optional(),
+    threatLevel: ThreatLevel,
+    location: GeoLocation,
+  }),
+  // The text that was classified
+  title: z.string(),
+  content: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  // Signed-in analysts who first made and last changed the correction, by email or user ID
+  // Self-hosted deployments without sign-in leave these empty
+  createdBy: z.string().optional(),
+  updatedBy: z.string().optional(),
+});
+export type ClassificationOverride = z.infer<typeof ClassificationOverride>;
+
 export const EntityProfile = z.object({
   id: z.string(),
   name: z.string(),
@@ -87,6 +236,45 @@ export const threatLevelColors: Record<ThreatLevel, string> = {
   info: "#3b82f6",
 };
 
+// Starting score for each classified level, and the score of events stored before scoring
+export const threatLevelScores: Record<ThreatLevel, number> = {
+  critical: 85,
+  high: 65,
+  medium: 45,
+  low: 25,
+  info: 10,
+};
+
+export const sourceTierRanks: Record<SourceTier, number> = {
+  wire: 1,
+  national: 2,
+  "state-media": 3,
+  blog: 4,
+  unknown: 5,
+};
+
+export const sourceTierLabels: Record<SourceTier, string> = {
+  wire: "Wire service",
+  national: "National outlet",
+  "state-media": "State media",
+  blog: "Blog",
+  unknown: "Unknown source",
+};
+
+export const locationPrecisionLabels: Record<LocationPrecision, string> = {
+  point: "Exact location",
+  city: "City",
+  region: "Region",
+  country: "Country-level",
+  water: "Body of water",
+};
+
+export const overrideFieldLabels: Record<OverrideField, string> = {
+  category: "category",
+  threatLevel: "threat level",
+  location: "location",
+};
+
 export const categoryIcons: Record<EventCategory, string> = {
   conflict: "Swords",
   protest: "Users",